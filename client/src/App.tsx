@@ -4,7 +4,11 @@ import { useTradingStore } from "@/stores/useTradingStore";
 import { useMarketDataStore } from "@/stores/useMarketDataStore";
 import { useTutorialStore } from "@/stores/useTutorialStore";
 import { MarketDataService } from "@/services/MarketDataService";
-import { OrderService } from "@/services/OrderService";
+import { orderService } from "@/services/OrderService";
+import { tradingSessionService } from "@/services/TradingSessionService";
+import { circuitBreakerService } from "@/services/CircuitBreakerService";
+import { algoEngine } from "@/services/AlgoEngine";
+import { conditionalOrderService } from "@/services/ConditionalOrderService";
 import { achievements } from "@/data/tutorials";
 
 function App() {
@@ -38,14 +42,17 @@ function App() {
     
     // Start market data feeds
     const marketDataService = new MarketDataService();
-    const orderService = new OrderService();
     
     // Start real-time data simulation
     startDataFeed();
     
     // Initialize services
     marketDataService.start();
+    tradingSessionService.start();
     orderService.initialize();
+    circuitBreakerService.start();
+    algoEngine.start();
+    conditionalOrderService.start();
     
     // Session time tracking
     const sessionStartTime = Date.now();
@@ -58,6 +65,11 @@ function App() {
     
     return () => {
       marketDataService.stop();
+      conditionalOrderService.stop();
+      algoEngine.stop();
+      circuitBreakerService.stop();
+      orderService.stop();
+      tradingSessionService.stop();
       clearInterval(sessionTimer);
     };
   }, [initialize, startDataFeed]);
@@ -6,8 +6,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { BarChart3, LineChart, TrendingUp, TrendingDown, Activity } from 'lucide-react';
 import { useTradingStore } from '@/stores/useTradingStore';
 import { useMarketData } from '@/hooks/useMarketData';
+import { useOrderStore } from '@/stores/useOrderStore';
 import { formatPrice, formatVolume, getPriceChangeColor } from '@/utils/formatters';
-import { LineChart as RechartsLineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, BarChart, Bar } from 'recharts';
+import { LineChart as RechartsLineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, BarChart, Bar, ReferenceLine } from 'recharts';
 
 type ChartType = 'line' | 'area' | 'candlestick' | 'volume';
 type TimeFrame = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
@@ -18,6 +19,15 @@ export const TradingChart: React.FC = () => {
   const [chartType, setChartType] = useState<ChartType>('line');
   const [timeFrame, setTimeFrame] = useState<TimeFrame>('5m');
   const [chartData, setChartData] = useState<any[]>([]);
+  const orders = useOrderStore(state => state.orders);
+
+  // Working trailing stops are drawn at their current level, which moves as the market makes new highs or lows
+  const trailingStops = orders.filter(order =>
+    order.symbol === selectedInstrument?.symbol &&
+    order.orderType === 'TRAILING_STOP' &&
+    order.stopPrice !== undefined &&
+    (order.status === 'NEW' || order.status === 'PARTIALLY_FILLED')
+  );
 
   // Initialize chart data when instrument or timeframe changes
   useEffect(() => {
@@ -140,6 +150,17 @@ export const TradingChart: React.FC = () => {
     return () => clearInterval(updateInterval);
   }, [marketData?.price, chartData.length]);
 
+  const renderStopLines = () => trailingStops.map(order => (
+    <ReferenceLine
+      key={order.id}
+      y={order.stopPrice}
+      stroke={order.side === 'SELL' ? 'hsl(0 84% 60%)' : 'hsl(142 71% 45%)'}
+      strokeDasharray="4 4"
+      ifOverflow="extendDomain"
+      label={{ value: `Trail ${order.side === 'SELL' ? 'sell' : 'buy'} stop ${formatPrice(order.stopPrice!)}`, position: 'insideBottomRight', fontSize: 10, fill: 'hsl(var(--muted-foreground))' }}
+    />
+  ));
+
   const renderChart = () => {
     if (chartData.length === 0) {
       return (
@@ -187,6 +208,7 @@ export const TradingChart: React.FC = () => {
                 dot={false}
                 activeDot={{ r: 4, stroke: 'hsl(var(--primary))' }}
               />
+              {renderStopLines()}
             </RechartsLineChart>
           </ResponsiveContainer>
         );
@@ -222,6 +244,7 @@ export const TradingChart: React.FC = () => {
                 fill="hsl(var(--primary))"
                 fillOpacity={0.3}
               />
+              {renderStopLines()}
             </AreaChart>
           </ResponsiveContainer>
         );
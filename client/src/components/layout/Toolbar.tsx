@@ -18,7 +18,7 @@ import { useTradingStore } from '@/stores/useTradingStore';
 import { useMarketDataStore } from '@/stores/useMarketDataStore';
 import { useOrderStore } from '@/stores/useOrderStore';
 import { usePositionStore } from '@/stores/usePositionStore';
-import { formatCurrency } from '@/utils/formatters';
+import { formatCurrency, formatSessionPhase } from '@/utils/formatters';
 import { TutorialMenu } from '@/components/tutorial';
 import { SettingsDialog } from './SettingsDialog';
 
@@ -33,7 +33,7 @@ export const Toolbar: React.FC = () => {
     updateSettings 
   } = useTradingStore();
   
-  const { isConnected, lastUpdate } = useMarketDataStore();
+  const { isConnected, lastUpdate, sessionPhases } = useMarketDataStore();
   const { orders } = useOrderStore();
   const { totalPnL, getAllPositions } = usePositionStore();
 
@@ -43,6 +43,19 @@ export const Toolbar: React.FC = () => {
 
   const positions = getAllPositions();
 
+  const sessionPhase = selectedInstrument ? sessionPhases.get(selectedInstrument.symbol) : undefined;
+
+  const getSessionPhaseColor = (phase: string) => {
+    switch (phase) {
+      case 'CONTINUOUS': return 'bg-green-500';
+      case 'OPENING_AUCTION':
+      case 'CLOSING_AUCTION': return 'bg-yellow-500';
+      case 'PRE_OPEN': return 'bg-blue-500';
+      case 'HALTED': return 'bg-red-500';
+      default: return 'bg-gray-500';
+    }
+  };
+
   const handleInstrumentSelect = (symbol: string) => {
     const instrument = instruments.find(inst => inst.symbol === symbol);
     setSelectedInstrument(instrument || null);
@@ -81,6 +94,14 @@ export const Toolbar: React.FC = () => {
             ))}
           </SelectContent>
         </Select>
+        {sessionPhase && (
+          <Badge
+            variant="secondary"
+            className={`text-xs text-white ${getSessionPhaseColor(sessionPhase)}`}
+          >
+            {formatSessionPhase(sessionPhase)}
+          </Badge>
+        )}
       </div>
 
       <Separator orientation="vertical" className="h-6" />
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
@@ -14,12 +14,14 @@ import {
   Globe,
   Search,
   RefreshCw,
-  Filter
+  Filter,
+  PauseCircle
 } from 'lucide-react';
 import { useTradingStore } from '@/stores/useTradingStore';
+import { useMarketDataStore } from '@/stores/useMarketDataStore';
 import { useMarketDataList } from '@/hooks/useMarketData';
 import { getInstrumentsByAssetClass, getInstrumentsBySector } from '@/data/instruments';
-import { formatPrice, formatVolume, formatPercentage, getPriceChangeColor } from '@/utils/formatters';
+import { formatPrice, formatVolume, formatPercentage, getPriceChangeColor, formatHaltReason, formatCountdown } from '@/utils/formatters';
 import { AreaChart, Area, BarChart, Bar, PieChart as RechartsPieChart, Pie, Cell, ResponsiveContainer, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4'];
@@ -30,6 +32,19 @@ export const MarketOverview: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedSector, setSelectedSector] = useState<string>('all');
   const [selectedAssetClass, setSelectedAssetClass] = useState<string>('all');
+  const halts = useMarketDataStore(state => state.halts);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while anything is halted so the countdowns run
+  useEffect(() => {
+    if (halts.size === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [halts.size]);
+
+  const haltList = useMemo(() => {
+    return Array.from(halts.values()).sort((a, b) => a.resumeAt - b.resumeAt);
+  }, [halts]);
 
   // Get market data for all instruments
   const allSymbols = instruments.map(inst => inst.symbol);
@@ -204,6 +219,38 @@ export const MarketOverview: React.FC = () => {
         </Select>
       </div>
 
+      {/* Trading Halts */}
+      {haltList.length > 0 && (
+        <Card className="border-red-500/50">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <PauseCircle className="h-4 w-4 text-red-500" />
+              Trading Halts
+              <Badge variant="destructive">{haltList.length}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {haltList.map(halt => (
+                <div key={halt.symbol} className="flex items-center justify-between p-2 bg-red-500/5 rounded">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm">{halt.symbol}</span>
+                      <Badge variant="outline" className="text-xs">{formatHaltReason(halt.reason)}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">{halt.description}</div>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-mono text-sm text-red-500">{formatCountdown(halt.resumeAt - now)}</div>
+                    <div className="text-xs text-muted-foreground">until reopening</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Market Statistics Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <Card>
@@ -0,0 +1,404 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, X, Pause, Play, Pencil } from 'lucide-react';
+import { useConditionalOrderStore } from '@/stores/useConditionalOrderStore';
+import { useTradingStore } from '@/stores/useTradingStore';
+import { conditionalOrderService } from '@/services/ConditionalOrderService';
+import { instruments } from '@/data/instruments';
+import { useToast } from '@/hooks/use-toast';
+import { formatPrice, formatTimestamp } from '@/utils/formatters';
+import { ConditionalOrder, ConditionIndicator, ConditionType, OrderCondition, OrderSide, TimeInForce } from '@/types/trading';
+
+type Draft = Pick<ConditionalOrder, 'conditions' | 'logic' | 'order'>;
+
+const newCondition = (symbol: string): OrderCondition => ({
+  id: `CND_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+  type: 'PRICE',
+  symbol,
+  comparator: 'BELOW',
+  value: 0,
+  met: false,
+});
+
+const newDraft = (symbol: string): Draft => ({
+  conditions: [newCondition(symbol)],
+  logic: 'AND',
+  order: { symbol, side: 'BUY', orderType: 'MARKET', quantity: 100, timeInForce: 'DAY' },
+});
+
+export const ConditionalOrders: React.FC = () => {
+  const { conditionalOrders } = useConditionalOrderStore();
+  const { selectedInstrument } = useTradingStore();
+  const { toast } = useToast();
+
+  const defaultSymbol = selectedInstrument?.symbol || instruments[0].symbol;
+  const [draft, setDraft] = React.useState<Draft>(() => newDraft(defaultSymbol));
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [showForm, setShowForm] = React.useState(false);
+
+  const sortedOrders = useMemo(() => {
+    return [...conditionalOrders].sort((a, b) => b.createdAt - a.createdAt);
+  }, [conditionalOrders]);
+
+  const updateCondition = (id: string, changes: Partial<OrderCondition>) => {
+    setDraft(prev => ({
+      ...prev,
+      conditions: prev.conditions.map(condition => condition.id === id ? { ...condition, ...changes } : condition),
+    }));
+  };
+
+  const openForm = (conditionalOrder?: ConditionalOrder) => {
+    setDraft(conditionalOrder
+      ? { conditions: conditionalOrder.conditions, logic: conditionalOrder.logic, order: conditionalOrder.order }
+      : newDraft(defaultSymbol));
+    setEditingId(conditionalOrder?.id || null);
+    setShowForm(true);
+  };
+
+  const handleSave = () => {
+    const rejectReason = conditionalOrderService.validate(draft);
+    if (rejectReason) {
+      toast({
+        title: "Error",
+        description: rejectReason,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (editingId) {
+      if (!conditionalOrderService.updateConditionalOrder(editingId, draft)) {
+        toast({
+          title: "Error",
+          description: "This conditional order has already triggered or been cancelled",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({ title: "Conditional Order Updated", description: editingId });
+    } else {
+      const id = conditionalOrderService.createConditionalOrder(draft);
+      toast({ title: "Conditional Order Armed", description: id });
+    }
+
+    setShowForm(false);
+    setEditingId(null);
+  };
+
+  const getConditionText = (condition: OrderCondition) => {
+    const comparator = condition.comparator === 'ABOVE' ? '≥' : '≤';
+    switch (condition.type) {
+      case 'TIME':
+        return `at ${condition.time}`;
+      case 'PERCENT_CHANGE':
+        return `${condition.symbol} change ${comparator} ${condition.value}%`
+          + (condition.referencePrice !== undefined ? ` from ${formatPrice(condition.referencePrice)}` : '');
+      case 'INDICATOR':
+        return `${condition.symbol} ${condition.indicator}${condition.indicator !== 'MACD' ? `(${condition.indicatorPeriod || 14})` : ''} ${comparator} ${condition.value}`;
+      default:
+        return `${condition.symbol} ${comparator} ${formatPrice(condition.value)}`;
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'ARMED': return 'bg-blue-500';
+      case 'TRIGGERED': return 'bg-green-500';
+      case 'DISARMED': return 'bg-yellow-500';
+      default: return 'bg-gray-500';
+    }
+  };
+
+  const isPending = (conditionalOrder: ConditionalOrder) =>
+    conditionalOrder.status === 'ARMED' || conditionalOrder.status === 'DISARMED';
+
+  return (
+    <Card className="h-full">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center justify-between">
+          Conditional Orders
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs">
+              {conditionalOrders.filter(conditionalOrder => conditionalOrder.status === 'ARMED').length} armed
+            </Badge>
+            <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => openForm()}>
+              <Plus className="h-3 w-3 mr-1" />
+              New
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="p-0 space-y-0">
+        {showForm && (
+          <div className="space-y-3 p-3 bg-muted/30 border-b">
+            <Label className="text-xs font-semibold">{editingId ? `Edit ${editingId}` : 'New Conditional Order'}</Label>
+
+            {/* Order sent when the conditions are met */}
+            <div className="grid grid-cols-4 gap-2">
+              <Select
+                value={draft.order.side}
+                onValueChange={(value: OrderSide) => setDraft(prev => ({ ...prev, order: { ...prev.order, side: value } }))}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="BUY">Buy</SelectItem>
+                  <SelectItem value="SELL">Sell</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                className="h-8 text-xs"
+                value={draft.order.quantity}
+                onChange={(e) => setDraft(prev => ({ ...prev, order: { ...prev.order, quantity: parseInt(e.target.value) || 0 } }))}
+              />
+              <Select
+                value={draft.order.symbol}
+                onValueChange={(value: string) => setDraft(prev => ({ ...prev, order: { ...prev.order, symbol: value } }))}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {instruments.map(instrument => (
+                    <SelectItem key={instrument.symbol} value={instrument.symbol}>{instrument.symbol}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={draft.order.timeInForce}
+                onValueChange={(value: TimeInForce) => setDraft(prev => ({ ...prev, order: { ...prev.order, timeInForce: value } }))}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="DAY">Day</SelectItem>
+                  <SelectItem value="GTC">GTC</SelectItem>
+                  <SelectItem value="IOC">IOC</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Select
+                value={draft.order.orderType}
+                onValueChange={(value: 'MARKET' | 'LIMIT') => setDraft(prev => ({ ...prev, order: { ...prev.order, orderType: value } }))}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="MARKET">Market</SelectItem>
+                  <SelectItem value="LIMIT">Limit</SelectItem>
+                </SelectContent>
+              </Select>
+              {draft.order.orderType === 'LIMIT' && (
+                <Input
+                  type="number"
+                  className="h-8 text-xs"
+                  placeholder="Limit price"
+                  value={draft.order.price || ''}
+                  onChange={(e) => setDraft(prev => ({ ...prev, order: { ...prev.order, price: parseFloat(e.target.value) || undefined } }))}
+                  step="0.01"
+                />
+              )}
+            </div>
+
+            {/* Conditions, all or any of which must hold */}
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">When</Label>
+              <Select
+                value={draft.logic}
+                onValueChange={(value: 'AND' | 'OR') => setDraft(prev => ({ ...prev, logic: value }))}
+              >
+                <SelectTrigger className="h-7 w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="AND">All of (AND)</SelectItem>
+                  <SelectItem value="OR">Any of (OR)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {draft.conditions.map(condition => (
+              <div key={condition.id} className="grid grid-cols-6 gap-1 items-center">
+                <Select
+                  value={condition.type}
+                  onValueChange={(value: ConditionType) => updateCondition(condition.id, {
+                    type: value,
+                    indicator: value === 'INDICATOR' ? condition.indicator || 'RSI' : undefined,
+                    time: value === 'TIME' ? condition.time || '15:45' : undefined,
+                  })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="PRICE">Price</SelectItem>
+                    <SelectItem value="PERCENT_CHANGE">% Change</SelectItem>
+                    <SelectItem value="INDICATOR">Indicator</SelectItem>
+                    <SelectItem value="TIME">Time</SelectItem>
+                  </SelectContent>
+                </Select>
+                {condition.type === 'TIME' ? (
+                  <Input
+                    type="time"
+                    className="h-8 text-xs col-span-4"
+                    value={condition.time || ''}
+                    onChange={(e) => updateCondition(condition.id, { time: e.target.value })}
+                  />
+                ) : (
+                  <>
+                    <Select
+                      value={condition.symbol}
+                      onValueChange={(value: string) => updateCondition(condition.id, { symbol: value })}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {instruments.map(instrument => (
+                          <SelectItem key={instrument.symbol} value={instrument.symbol}>{instrument.symbol}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {condition.type === 'INDICATOR' ? (
+                      <Select
+                        value={condition.indicator}
+                        onValueChange={(value: ConditionIndicator) => updateCondition(condition.id, { indicator: value })}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="RSI">RSI</SelectItem>
+                          <SelectItem value="MACD">MACD hist.</SelectItem>
+                          <SelectItem value="SMA">SMA</SelectItem>
+                          <SelectItem value="EMA">EMA</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <div />
+                    )}
+                    <Select
+                      value={condition.comparator}
+                      onValueChange={(value: 'ABOVE' | 'BELOW') => updateCondition(condition.id, { comparator: value })}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ABOVE">{'≥'}</SelectItem>
+                        <SelectItem value="BELOW">{'≤'}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      className="h-8 text-xs"
+                      title={condition.type === 'PERCENT_CHANGE' ? 'Percent move since armed; negative for a drop' : undefined}
+                      value={condition.value}
+                      onChange={(e) => updateCondition(condition.id, { value: parseFloat(e.target.value) || 0 })}
+                      step="0.01"
+                    />
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  disabled={draft.conditions.length === 1}
+                  onClick={() => setDraft(prev => ({ ...prev, conditions: prev.conditions.filter(existing => existing.id !== condition.id) }))}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setDraft(prev => ({ ...prev, conditions: [...prev.conditions, newCondition(prev.order.symbol)] }))}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Condition
+              </Button>
+              <div className="flex-1" />
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setShowForm(false)}>
+                Close
+              </Button>
+              <Button size="sm" className="h-7 text-xs" onClick={handleSave}>
+                {editingId ? 'Save' : 'Arm'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto">
+          {sortedOrders.length === 0 ? (
+            <div className="flex items-center justify-center h-32 text-muted-foreground text-sm">
+              No conditional orders
+            </div>
+          ) : (
+            sortedOrders.map(conditionalOrder => (
+              <div key={conditionalOrder.id} className="px-3 py-2 text-xs border-b hover:bg-muted/30 space-y-1">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className={`text-xs text-white ${getStatusColor(conditionalOrder.status)}`}>
+                      {conditionalOrder.status}
+                    </Badge>
+                    <span className={`font-medium ${conditionalOrder.order.side === 'BUY' ? 'text-green-500' : 'text-red-500'}`}>
+                      {conditionalOrder.order.side}
+                    </span>
+                    <span className="font-mono">
+                      {conditionalOrder.order.quantity} {conditionalOrder.order.symbol} {conditionalOrder.order.orderType === 'LIMIT' ? formatPrice(conditionalOrder.order.price || 0) : 'MKT'}
+                    </span>
+                  </div>
+                  <div className="flex gap-1">
+                    {isPending(conditionalOrder) && (
+                      <>
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Edit" onClick={() => openForm(conditionalOrder)}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        {conditionalOrder.status === 'ARMED' ? (
+                          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Disarm" onClick={() => conditionalOrderService.disarm(conditionalOrder.id)}>
+                            <Pause className="h-3 w-3" />
+                          </Button>
+                        ) : (
+                          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Arm" onClick={() => conditionalOrderService.arm(conditionalOrder.id)}>
+                            <Play className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Cancel" onClick={() => conditionalOrderService.cancel(conditionalOrder.id)}>
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {conditionalOrder.conditions.map((condition, index) => (
+                  <div key={condition.id} className="flex items-center gap-2 pl-2 text-muted-foreground">
+                    <span className={`h-2 w-2 rounded-full ${condition.met ? 'bg-green-500' : 'bg-muted-foreground/40'}`} />
+                    <span>{index > 0 ? `${conditionalOrder.logic} ` : ''}{getConditionText(condition)}</span>
+                  </div>
+                ))}
+                {conditionalOrder.status === 'TRIGGERED' && conditionalOrder.triggeredAt && (
+                  <div className="pl-2 text-muted-foreground">
+                    Triggered {formatTimestamp(conditionalOrder.triggeredAt)}{conditionalOrder.orderId ? ` → ${conditionalOrder.orderId}` : ''}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,14 +1,86 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Button } from '@/components/ui/button';
 import { useTradingStore } from '@/stores/useTradingStore';
+import { useMarketDataStore } from '@/stores/useMarketDataStore';
 import { useMarketData } from '@/hooks/useMarketData';
-import { formatPrice, formatVolume } from '@/utils/formatters';
+import { useOrderStore } from '@/stores/useOrderStore';
+import { orderService } from '@/services/OrderService';
+import { formatPrice, formatVolume, formatAuctionType, formatTimestamp } from '@/utils/formatters';
+import { MarketByOrderLevel, OrderSide } from '@/types/trading';
+
+// One price level of the market-by-order view: each resting order in queue order, own orders highlighted
+const OrderQueueLevel: React.FC<{
+  level: MarketByOrderLevel;
+  side: OrderSide;
+  ownOrderIds: Set<string>;
+}> = ({ level, side, ownOrderIds }) => {
+  const own = level.orders.find(entry => ownOrderIds.has(entry.orderId));
+  
+  return (
+    <div className={`px-4 py-1 text-xs border-l-2 ${side === 'BUY' ? 'border-green-500/20' : 'border-red-500/20'} ${own ? 'bg-primary/10' : ''}`}>
+      <div className="flex items-center gap-2">
+        <span className={`font-mono w-16 shrink-0 ${side === 'BUY' ? 'text-green-500' : 'text-red-500'}`}>
+          {formatPrice(level.price)}
+        </span>
+        <div className="flex flex-wrap gap-0.5">
+          {level.orders.map(entry => (
+            <span
+              key={entry.orderId}
+              title={`#${entry.queuePosition} - ${entry.quantity} (${formatVolume(entry.quantityAhead)} ahead)`}
+              className={`font-mono px-1 rounded ${ownOrderIds.has(entry.orderId) ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'}`}
+            >
+              {formatVolume(entry.quantity)}
+            </span>
+          ))}
+        </div>
+      </div>
+      {own && (
+        <div className="text-[10px] text-muted-foreground pl-[4.5rem]">
+          Your order: #{own.queuePosition} of {level.orders.length}, {formatVolume(own.quantityAhead)} ahead
+        </div>
+      )}
+    </div>
+  );
+};
 
 export const MarketDepth: React.FC = () => {
   const { selectedInstrument } = useTradingStore();
   const { orderBook } = useMarketData(selectedInstrument?.symbol);
+  const auction = useMarketDataStore(state =>
+    selectedInstrument ? state.auctions.get(selectedInstrument.symbol) : undefined
+  );
+  const nbbo = useMarketDataStore(state =>
+    selectedInstrument ? state.nbbo.get(selectedInstrument.symbol) : undefined
+  );
+  const marketByOrder = useMarketDataStore(state =>
+    selectedInstrument ? state.marketByOrder.get(selectedInstrument.symbol) : undefined
+  );
+  const bookEvents = useMarketDataStore(state =>
+    selectedInstrument ? state.bookEvents.get(selectedInstrument.symbol) : undefined
+  );
+  const { orders } = useOrderStore();
+  const [view, setView] = useState<'L2' | 'L3'>('L2');
+  const [l3Venue, setL3Venue] = useState<string | undefined>();
+  
+  const ownOrderIds = useMemo(() => new Set(
+    orders
+      .filter(order => order.status === 'NEW' || order.status === 'PARTIALLY_FILLED')
+      .map(order => order.id)
+  ), [orders]);
+  
+  // Show the venue the user chose, else wherever their own orders rest, else the listing venue
+  const venueBook = useMemo(() => {
+    if (!marketByOrder || marketByOrder.length === 0) return undefined;
+    const hasOwn = (book: typeof marketByOrder[number]) =>
+      [...book.bids, ...book.asks].some(level => level.orders.some(entry => ownOrderIds.has(entry.orderId)));
+    return marketByOrder.find(book => book.venue === l3Venue)
+      || marketByOrder.find(hasOwn)
+      || marketByOrder.find(book => book.venue === selectedInstrument?.exchange)
+      || marketByOrder[0];
+  }, [marketByOrder, l3Venue, ownOrderIds, selectedInstrument]);
 
   if (!selectedInstrument) {
     return (
@@ -41,75 +113,239 @@ export const MarketDepth: React.FC = () => {
       <CardHeader className="pb-3">
         <CardTitle className="text-sm flex items-center justify-between">
           Market Depth
-          <Badge variant="outline" className="text-xs">
-            {selectedInstrument.symbol}
-          </Badge>
+          <div className="flex gap-1">
+            {(['L2', 'L3'] as const).map(level => (
+              <Button
+                key={level}
+                variant={view === level ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-5 px-2 text-xs"
+                onClick={() => setView(level)}
+              >
+                {level}
+              </Button>
+            ))}
+            {selectedInstrument.matchingAlgorithm && selectedInstrument.matchingAlgorithm !== 'FIFO' && (
+              <Badge variant="secondary" className="text-xs">
+                {selectedInstrument.matchingAlgorithm === 'PRO_RATA' ? 'Pro-Rata' : 'FIFO + Pro-Rata'}
+              </Badge>
+            )}
+            <Badge variant="outline" className="text-xs">
+              {selectedInstrument.symbol}
+            </Badge>
+          </div>
         </CardTitle>
       </CardHeader>
       
       <CardContent className="p-0">
         <div className="h-full flex flex-col">
           {/* Header */}
-          <div className="grid grid-cols-3 gap-2 px-4 py-2 bg-muted/50 text-xs font-semibold">
-            <div className="text-left">Size</div>
-            <div className="text-center">Price</div>
-            <div className="text-right">Orders</div>
-          </div>
+          {view === 'L2' ? (
+            <div className="grid grid-cols-3 gap-2 px-4 py-2 bg-muted/50 text-xs font-semibold">
+              <div className="text-left">Size</div>
+              <div className="text-center">Price</div>
+              <div className="text-right">Orders</div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1 px-4 py-2 bg-muted/50 text-xs font-semibold">
+              <span className="mr-auto">Orders by Price</span>
+              {marketByOrder && marketByOrder.length > 1 && marketByOrder.map(book => (
+                <Button
+                  key={book.venue}
+                  variant={venueBook?.venue === book.venue ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-5 px-1.5 text-[10px]"
+                  onClick={() => setL3Venue(book.venue)}
+                >
+                  {book.venue}
+                </Button>
+              ))}
+            </div>
+          )}
           
           <Separator />
           
-          {/* Asks (Sell Orders) */}
-          <div className="flex-1 overflow-auto">
-            <div className="space-y-0">
-              {orderBook.asks.slice(0, 10).reverse().map((level: { price: number; quantity: number; orderCount: number }, index: number) => (
-                <div
-                  key={`ask-${index}`}
-                  className="grid grid-cols-3 gap-2 px-4 py-1 text-xs hover:bg-muted/30 border-l-2 border-red-500/20"
+          {/* Call Auction */}
+          {auction ? (
+            <div className="px-4 py-2 bg-amber-500/10 border-b text-xs space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold">
+                  {formatAuctionType(auction.auctionType)} Auction
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-6 text-xs"
+                  onClick={() => orderService.uncrossAuction(selectedInstrument.symbol)}
                 >
-                  <div className="text-left font-mono text-muted-foreground">
-                    {formatVolume(level.quantity)}
-                  </div>
-                  <div className="text-center font-mono text-red-500">
-                    {formatPrice(level.price)}
+                  Uncross
+                </Button>
+              </div>
+              <div className="grid grid-cols-3 gap-2 font-mono">
+                <div>
+                  <div className="text-muted-foreground">Ind. Price</div>
+                  <div>{auction.indicativePrice !== undefined ? formatPrice(auction.indicativePrice) : '-'}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Ind. Volume</div>
+                  <div>{formatVolume(auction.indicativeVolume)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Imbalance</div>
+                  <div className={auction.imbalanceSide === 'BUY' ? 'text-green-500' : auction.imbalanceSide === 'SELL' ? 'text-red-500' : ''}>
+                    {auction.imbalanceSide ? `${formatVolume(auction.imbalanceQuantity)} ${auction.imbalanceSide}` : '-'}
                   </div>
-                  <div className="text-right font-mono text-muted-foreground">
-                    {level.orderCount}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2 px-4 py-2 border-b">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 flex-1 text-xs"
+                onClick={() => orderService.startAuction(selectedInstrument.symbol, 'OPENING')}
+              >
+                Opening Auction
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 flex-1 text-xs"
+                onClick={() => orderService.startAuction(selectedInstrument.symbol, 'CLOSING')}
+              >
+                Closing Auction
+              </Button>
+            </div>
+          )}
+          
+          {/* Market by order: individual orders at each level, with the latest book events */}
+          {view === 'L3' && (
+            <div className="flex-1 overflow-auto">
+              {!venueBook ? (
+                <div className="flex items-center justify-center h-32 text-muted-foreground text-sm">
+                  No orders in the book
+                </div>
+              ) : (
+                <>
+                  {[...venueBook.asks].reverse().map(level => (
+                    <OrderQueueLevel key={`ask-${level.price}`} level={level} side="SELL" ownOrderIds={ownOrderIds} />
+                  ))}
+                  <div className="py-1 px-4 bg-muted/30 border-y text-center text-xs text-muted-foreground">
+                    {venueBook.venue} - seq {venueBook.sequence}
                   </div>
+                  {venueBook.bids.map(level => (
+                    <OrderQueueLevel key={`bid-${level.price}`} level={level} side="BUY" ownOrderIds={ownOrderIds} />
+                  ))}
+                </>
+              )}
+              
+              {bookEvents && bookEvents.length > 0 && (
+                <div className="px-4 py-2 border-t text-[10px] font-mono space-y-0.5">
+                  {bookEvents.filter(event => event.venue === venueBook?.venue).slice(-8).reverse().map(event => (
+                    <div
+                      key={`${event.venue}-${event.sequence}`}
+                      className={`grid grid-cols-5 gap-1 ${ownOrderIds.has(event.orderId) ? 'text-primary' : 'text-muted-foreground'}`}
+                    >
+                      <span>{formatTimestamp(event.timestamp)}</span>
+                      <span>{event.type}</span>
+                      <span className={event.side === 'BUY' ? 'text-green-500' : 'text-red-500'}>{event.side}</span>
+                      <span className="text-right">{formatVolume(event.quantity)}</span>
+                      <span className="text-right">{formatPrice(event.price)}</span>
+                    </div>
+                  ))}
                 </div>
-              ))}
+              )}
             </div>
+          )}
+          
+          {/* Asks (Sell Orders) */}
+          {view === 'L2' && (
+            <div className="flex-1 overflow-auto">
+              <div className="space-y-0">
+                {orderBook.asks.slice(0, 10).reverse().map((level: { price: number; quantity: number; orderCount: number }, index: number) => (
+                  <div
+                    key={`ask-${index}`}
+                    className="grid grid-cols-3 gap-2 px-4 py-1 text-xs hover:bg-muted/30 border-l-2 border-red-500/20"
+                  >
+                    <div className="text-left font-mono text-muted-foreground">
+                      {formatVolume(level.quantity)}
+                    </div>
+                    <div className="text-center font-mono text-red-500">
+                      {formatPrice(level.price)}
+                    </div>
+                    <div className="text-right font-mono text-muted-foreground">
+                      {level.orderCount}
+                    </div>
+                  </div>
+                ))}
+              </div>
             
-            {/* Spread */}
-            <div className="py-2 px-4 bg-muted/30 border-y">
-              <div className="text-center text-xs">
-                <span className="text-muted-foreground">Spread: </span>
-                <span className="font-mono">
-                  {formatPrice(orderBook.asks[0]?.price - orderBook.bids[0]?.price)}
-                </span>
+              {/* Spread */}
+              <div className="py-2 px-4 bg-muted/30 border-y">
+                <div className="text-center text-xs">
+                  <span className="text-muted-foreground">Spread: </span>
+                  <span className="font-mono">
+                    {formatPrice(orderBook.asks[0]?.price - orderBook.bids[0]?.price)}
+                  </span>
+                </div>
               </div>
-            </div>
             
-            {/* Bids (Buy Orders) */}
-            <div className="space-y-0">
-              {orderBook.bids.slice(0, 10).map((level: { price: number; quantity: number; orderCount: number }, index: number) => (
-                <div
-                  key={`bid-${index}`}
-                  className="grid grid-cols-3 gap-2 px-4 py-1 text-xs hover:bg-muted/30 border-l-2 border-green-500/20"
-                >
-                  <div className="text-left font-mono text-muted-foreground">
-                    {formatVolume(level.quantity)}
-                  </div>
-                  <div className="text-center font-mono text-green-500">
-                    {formatPrice(level.price)}
-                  </div>
-                  <div className="text-right font-mono text-muted-foreground">
-                    {level.orderCount}
+              {/* Bids (Buy Orders) */}
+              <div className="space-y-0">
+                {orderBook.bids.slice(0, 10).map((level: { price: number; quantity: number; orderCount: number }, index: number) => (
+                  <div
+                    key={`bid-${index}`}
+                    className="grid grid-cols-3 gap-2 px-4 py-1 text-xs hover:bg-muted/30 border-l-2 border-green-500/20"
+                  >
+                    <div className="text-left font-mono text-muted-foreground">
+                      {formatVolume(level.quantity)}
+                    </div>
+                    <div className="text-center font-mono text-green-500">
+                      {formatPrice(level.price)}
+                    </div>
+                    <div className="text-right font-mono text-muted-foreground">
+                      {level.orderCount}
+                    </div>
                   </div>
-                </div>
-              ))}
+                ))}
+              </div>
             </div>
-          </div>
+          )}
           
+          {/* Per-venue quotes; venues setting the NBBO are highlighted */}
+          {nbbo && nbbo.quotes.length > 1 && (
+            <>
+              <Separator />
+              <div className="px-4 py-2 text-xs space-y-1">
+                <div className="flex justify-between font-semibold">
+                  <span>NBBO</span>
+                  <span className="font-mono">
+                    <span className="text-green-500">{formatPrice(nbbo.bid)}</span>
+                    {' x '}
+                    <span className="text-red-500">{formatPrice(nbbo.ask)}</span>
+                  </span>
+                </div>
+                <div className="grid grid-cols-3 gap-2 text-muted-foreground">
+                  <div>Venue</div>
+                  <div className="text-right">Bid</div>
+                  <div className="text-right">Ask</div>
+                </div>
+                {nbbo.quotes.map(quote => (
+                  <div key={quote.venue} className="grid grid-cols-3 gap-2 font-mono">
+                    <div>{quote.venue}</div>
+                    <div className={`text-right ${nbbo.bidVenues.includes(quote.venue) ? 'text-green-500 font-semibold' : 'text-muted-foreground'}`}>
+                      {quote.bid > 0 ? `${formatVolume(quote.bidSize)} @ ${formatPrice(quote.bid)}` : '-'}
+                    </div>
+                    <div className={`text-right ${nbbo.askVenues.includes(quote.venue) ? 'text-red-500 font-semibold' : 'text-muted-foreground'}`}>
+                      {quote.ask > 0 ? `${formatPrice(quote.ask)} @ ${formatVolume(quote.askSize)}` : '-'}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
           {/* Footer with totals */}
           <Separator />
           <div className="p-3 bg-muted/30">
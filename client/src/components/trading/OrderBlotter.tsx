@@ -3,18 +3,23 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { X, Search, Filter } from 'lucide-react';
+import { X, Search, Filter, Pencil, Check, AlertTriangle } from 'lucide-react';
 import { useOrderStore } from '@/stores/useOrderStore';
-import { OrderService } from '@/services/OrderService';
+import { orderService } from '@/services/OrderService';
+import { useToast } from '@/hooks/use-toast';
 import { formatPrice, formatTimestamp, formatOrderStatus, formatOrderType } from '@/utils/formatters';
 import { Order } from '@/types/trading';
 
-const orderService = new OrderService();
-
 export const OrderBlotter: React.FC = () => {
-  const { orders } = useOrderStore();
+  const { orders, auditLog } = useOrderStore();
+  const { toast } = useToast();
   const [searchTerm, setSearchTerm] = React.useState('');
   const [statusFilter, setStatusFilter] = React.useState<string>('all');
+  const [amendingOrderId, setAmendingOrderId] = React.useState<string | null>(null);
+  const [amendQuantity, setAmendQuantity] = React.useState('');
+  const [amendPrice, setAmendPrice] = React.useState('');
+
+  const getParentId = (order: Order) => order.parentOrderId || order.bracketEntryId || order.spreadOrderId;
 
   const filteredOrders = useMemo(() => {
     let filtered = orders;
@@ -30,7 +35,26 @@ export const OrderBlotter: React.FC = () => {
       filtered = filtered.filter(order => order.status === statusFilter);
     }
     
-    return filtered.sort((a, b) => b.timestamp - a.timestamp);
+    // Routed child orders and bracket exits are listed under their parent rather than on their own
+    const visibleIds = new Set(filtered.map(order => order.id));
+    const children = new Map<string, Order[]>();
+    orders.forEach(order => {
+      const parentId = getParentId(order);
+      if (parentId && visibleIds.has(parentId)) {
+        children.set(parentId, [...(children.get(parentId) || []), order]);
+      }
+    });
+
+    // Algo slices are themselves routed, so children can have children of their own
+    const withChildren = (order: Order): Order[] => [
+      order,
+      ...(children.get(order.id) || []).sort((a, b) => a.timestamp - b.timestamp).flatMap(withChildren),
+    ];
+
+    return filtered
+      .filter(order => !getParentId(order) || !visibleIds.has(getParentId(order)!))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .flatMap(withChildren);
   }, [orders, searchTerm, statusFilter]);
 
   const handleCancelOrder = async (orderId: string) => {
@@ -41,6 +65,45 @@ export const OrderBlotter: React.FC = () => {
     }
   };
 
+  const handleStartAmend = (order: Order) => {
+    setAmendingOrderId(order.id);
+    setAmendQuantity(order.quantity.toString());
+    setAmendPrice(order.price?.toString() || '');
+  };
+
+  const handleSubmitAmend = async (order: Order) => {
+    const quantity = parseInt(amendQuantity);
+    const price = amendPrice ? parseFloat(amendPrice) : undefined;
+    
+    try {
+      const rejection = await orderService.amendOrder(order.id, {
+        quantity: isNaN(quantity) ? undefined : quantity,
+        price: price !== undefined && !isNaN(price) ? price : undefined,
+      });
+      
+      // A refused replace leaves the editor open so the terms can be corrected
+      if (rejection) {
+        toast({ title: "Amend Rejected", description: rejection.text, variant: "destructive" });
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to amend order:', error);
+    }
+    setAmendingOrderId(null);
+  };
+
+  const getTrailText = (order: Order) => {
+    switch (order.trailType) {
+      case 'PERCENTAGE': return `${order.trailAmount}%`;
+      case 'ATR': return `${order.trailAmount}\u00D7 ATR`;
+      default: return formatPrice(order.trailAmount || 0);
+    }
+  };
+
+  const canAmend = (order: Order) => {
+    return (order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') && order.orderType !== 'MARKET' && order.orderType !== 'MULTI_LEG' && !order.parentOrderId && !order.spreadOrderId && !order.algoParams;
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'NEW': return 'bg-blue-500';
@@ -48,10 +111,27 @@ export const OrderBlotter: React.FC = () => {
       case 'FILLED': return 'bg-green-500';
       case 'CANCELLED': return 'bg-gray-500';
       case 'REJECTED': return 'bg-red-500';
+      case 'PENDING_NEW':
+      case 'PENDING_CANCEL':
+      case 'PENDING_REPLACE': return 'bg-orange-500';
       default: return 'bg-gray-500';
     }
   };
 
+  const getLastReportText = (order: Order) => {
+    return order.executionReports[order.executionReports.length - 1]?.text;
+  };
+
+  // Reports the order state machine refused, e.g. a fill arriving after the cancel
+  const getRefusedReports = (order: Order) => {
+    return auditLog.filter(entry => entry.orderId === order.id);
+  };
+
+  const getParticipationText = (order: Order) => {
+    const { filledQuantity, marketVolume } = order.algoReport!;
+    return marketVolume > 0 ? `${(filledQuantity / marketVolume * 100).toFixed(1)}%` : 'none';
+  };
+
   const getSideColor = (side: string) => {
     return side === 'BUY' ? 'text-green-500' : 'text-red-500';
   };
@@ -118,26 +198,95 @@ export const OrderBlotter: React.FC = () => {
                   key={order.id}
                   className="grid grid-cols-8 gap-1 px-3 py-2 text-xs hover:bg-muted/30 border-b"
                 >
-                  <div className="font-medium">{order.symbol}</div>
+                  <div className={`font-medium ${getParentId(order) ? 'pl-3 text-muted-foreground' : ''}`}>
+                    {getParentId(order) ? '\u21B3 ' : ''}{order.symbol}
+                    {order.venue && (
+                      <Badge variant="outline" className="ml-1 text-[10px] px-1 py-0">
+                        {order.venue}
+                      </Badge>
+                    )}
+                    {order.ocoGroupId && (
+                      <Badge variant="secondary" className="ml-1 text-[10px] px-1 py-0" title={order.ocoGroupId}>
+                        OCO
+                      </Badge>
+                    )}
+                  </div>
                   <div className={`font-medium ${getSideColor(order.side)}`}>
                     {order.side}
                   </div>
                   <div className="text-muted-foreground">
                     {formatOrderType(order.orderType)}
-                  </div>
-                  <div className="font-mono">
-                    {order.filledQuantity > 0 ? (
-                      <span>
-                        {order.filledQuantity}
-                        <span className="text-muted-foreground">/{order.quantity}</span>
-                      </span>
-                    ) : (
-                      order.quantity
+                    {order.algoParams && (
+                      <div className="text-[10px]">
+                        {order.algoParams.sliceCount
+                          ? `${order.childOrderIds?.length || 0}/${order.algoParams.sliceCount} slices`
+                          : `${order.childOrderIds?.length || 0} children`}
+                      </div>
+                    )}
+                    {order.algoReport && (
+                      <div
+                        className={`text-[10px] ${order.algoReport.slippageBps > 0 ? 'text-red-500' : 'text-green-500'}`}
+                        title={`${formatPrice(order.algoReport.achievedPrice)} vs ${order.algoReport.benchmark} ${formatPrice(order.algoReport.benchmarkPrice)}, arrival ${formatPrice(order.algoReport.arrivalPrice)}, ${getParticipationText(order)} of market volume`}
+                      >
+                        {order.algoReport.slippageBps > 0 ? '+' : ''}{order.algoReport.slippageBps} bps vs {order.algoReport.benchmark}
+                      </div>
                     )}
                   </div>
-                  <div className="font-mono">
-                    {order.orderType === 'MARKET' ? 'MKT' : formatPrice(order.price || 0)}
-                  </div>
+                  {amendingOrderId === order.id ? (
+                    <>
+                      <Input
+                        type="number"
+                        value={amendQuantity}
+                        onChange={(e) => setAmendQuantity(e.target.value)}
+                        className="h-6 px-1 text-xs font-mono"
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={amendPrice}
+                        onChange={(e) => setAmendPrice(e.target.value)}
+                        disabled={order.orderType === 'PEGGED' || order.price === undefined}
+                        className="h-6 px-1 text-xs font-mono"
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <div className="font-mono">
+                        {order.filledQuantity > 0 ? (
+                          <span>
+                            {order.filledQuantity}
+                            <span className="text-muted-foreground">/{order.quantity}</span>
+                          </span>
+                        ) : (
+                          order.quantity
+                        )}
+                        {order.visibleQuantity !== undefined && (order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') && (
+                          <div className="text-[10px] text-muted-foreground">
+                            vis {order.visibleQuantity} / hid {order.remainingQuantity - order.visibleQuantity}
+                          </div>
+                        )}
+                      </div>
+                      <div className="font-mono">
+                        {order.orderType === 'MARKET' || order.orderType === 'STOP' || order.orderType === 'TRAILING_STOP' ? 'MKT' : formatPrice(order.price || 0)}
+                        {order.orderType === 'MULTI_LEG' && (
+                          <div className="text-[10px] text-muted-foreground">net {order.price! < 0 ? 'credit' : 'debit'}</div>
+                        )}
+                        {order.orderType === 'PEGGED' && order.pegType && (
+                          <div className="text-[10px] text-muted-foreground">peg {order.pegType.toLowerCase()}</div>
+                        )}
+                        {order.stopPrice !== undefined && (order.orderType === 'STOP' || order.orderType === 'STOP_LIMIT' || order.orderType === 'TRAILING_STOP') && (
+                          <div className="text-[10px] text-muted-foreground">
+                            stop {formatPrice(order.stopPrice)} {(order.triggerType || 'LAST').toLowerCase()}
+                          </div>
+                        )}
+                        {order.orderType === 'TRAILING_STOP' && order.trailWatermark !== undefined && (
+                          <div className="text-[10px] text-muted-foreground" title={`Best ${(order.triggerType || 'LAST').toLowerCase()} since activation`}>
+                            trail {getTrailText(order)} from {formatPrice(order.trailWatermark)}
+                          </div>
+                        )}
+                      </div>
+                    </>
+                  )}
                   <div>
                     <Badge
                       variant="secondary"
@@ -145,20 +294,61 @@ export const OrderBlotter: React.FC = () => {
                     >
                       {formatOrderStatus(order.status)}
                     </Badge>
+                    {getRefusedReports(order).length > 0 && (
+                      <span title={getRefusedReports(order).map(entry => `${entry.execType}: ${entry.reason}`).join('\n')}>
+                        <AlertTriangle className="inline h-3 w-3 ml-1 text-orange-500" />
+                      </span>
+                    )}
+                    {getLastReportText(order) && (
+                      <div className="text-[10px] text-muted-foreground truncate" title={getLastReportText(order)}>
+                        {getLastReportText(order)}
+                      </div>
+                    )}
                   </div>
                   <div className="font-mono text-muted-foreground">
                     {formatTimestamp(order.timestamp)}
                   </div>
-                  <div>
-                    {(order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') && (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleCancelOrder(order.id)}
-                        className="h-6 w-6 p-0"
-                      >
-                        <X className="h-3 w-3" />
-                      </Button>
+                  <div className="flex gap-1">
+                    {amendingOrderId === order.id ? (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleSubmitAmend(order)}
+                          className="h-6 w-6 p-0"
+                        >
+                          <Check className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setAmendingOrderId(null)}
+                          className="h-6 w-6 p-0"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </>
+                    ) : (order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') && (
+                      <>
+                        {canAmend(order) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleStartAmend(order)}
+                            className="h-6 w-6 p-0"
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCancelOrder(order.id)}
+                          className="h-6 w-6 p-0"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </>
                     )}
                   </div>
                 </div>
@@ -9,15 +9,17 @@ import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { AlertTriangle, DollarSign, TrendingUp, TrendingDown } from 'lucide-react';
 import { useTradingStore } from '@/stores/useTradingStore';
+import { useMarketDataStore } from '@/stores/useMarketDataStore';
 import { useMarketData } from '@/hooks/useMarketData';
-import { OrderService } from '@/services/OrderService';
+import { orderService } from '@/services/OrderService';
+import { ALGO_ORDER_TYPES } from '@/services/OrderValidator';
 import { useToast } from '@/hooks/use-toast';
 import { formatPrice, formatCurrency } from '@/utils/formatters';
-import { OrderType, OrderSide, TimeInForce } from '@/types/trading';
+import { OrderType, OrderSide, TimeInForce, PegType, StopTriggerType, TrailType, AlgoChildOrderType, AlgoUrgency, SpreadStrategy } from '@/types/trading';
 import { complexOrderService } from '@/services/ComplexOrderService';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-
-const orderService = new OrderService();
+import { SMART_ROUTE, DARK_POOL, getVenuesForSymbol, isDarkPoolEligible } from '@/data/venues';
+import { SPREAD_STRIKE_COUNTS, getOptionSeries, buildSpreadLegs, normalizeSpread, getSpreadSymbol, getImpliedSpreadQuote } from '@/data/spreads';
 
 export const OrderEntry: React.FC = () => {
   const { selectedInstrument, settings } = useTradingStore();
@@ -33,16 +35,36 @@ export const OrderEntry: React.FC = () => {
     timeInForce: 'DAY' as TimeInForce,
     gatewayType: 'FIX' as 'FIX' | 'OUCH',
     expireDate: undefined as number | undefined,
+    displayQuantity: 0,
+    traderId: 'TRADER_1',
+    pegType: 'PRIMARY' as PegType,
+    pegOffset: 0,
+    triggerType: 'LAST' as StopTriggerType,
+    trailType: 'PERCENTAGE' as TrailType,
+    trailAmount: 1,
+    venue: SMART_ROUTE,
+    minQuantity: 0,
+    algoDurationMinutes: 30,
+    algoSliceCount: 10,
+    algoChildOrderType: 'LIMIT' as AlgoChildOrderType,
+    algoLimitPrice: 0,
+    algoMaxParticipationPercent: 0,
+    algoTargetParticipationPercent: 10,
+    algoUrgency: 'MEDIUM' as AlgoUrgency,
+    algoRiskAversion: 0.5,
   });
 
   const [isAdvanced, setIsAdvanced] = useState(false);
+  const venues = selectedInstrument ? getVenuesForSymbol(selectedInstrument.symbol) : [];
+  const darkPoolEligible = selectedInstrument ? isDarkPoolEligible(selectedInstrument.symbol) : false;
   const [orderCategory, setOrderCategory] = useState<'simple' | 'bracket' | 'oco' | 'multileg'>('simple');
 
   const [bracketData, setBracketData] = useState({
     takeProfitPrice: 0,
     stopLossPrice: 0,
     trailingStop: false,
-    trailingPercent: 5,
+    trailType: 'PERCENTAGE' as TrailType,
+    trailAmount: 5,
   });
 
   const [ocoData, setOcoData] = useState({
@@ -52,13 +74,54 @@ export const OrderEntry: React.FC = () => {
     secondaryType: 'STOP' as OrderType,
   });
 
+  const [spreadData, setSpreadData] = useState({
+    strategy: 'CALL_VERTICAL' as SpreadStrategy,
+    expirationDate: '',
+    strikes: [] as number[],
+    netPrice: 0,
+  });
+
+  // Spreads are built from the option series on the selected instrument's underlying
+  const optionSeries = getOptionSeries(selectedInstrument?.underlyingSymbol || selectedInstrument?.symbol || '');
+  const expirations = Array.from(new Set(optionSeries.map(instrument => instrument.expirationDate!)));
+  const spreadExpiration = spreadData.expirationDate || expirations[0] || '';
+  const strikeChoices = Array.from(new Set(optionSeries
+    .filter(instrument => instrument.expirationDate === spreadExpiration)
+    .map(instrument => instrument.strikePrice!)));
+  const spreadStrikes = Array.from({ length: SPREAD_STRIKE_COUNTS[spreadData.strategy] }, (_, index) =>
+    spreadData.strikes[index] ?? strikeChoices[Math.min(index, strikeChoices.length - 1)]);
+  const spreadLegs = optionSeries.length > 0
+    ? buildSpreadLegs(spreadData.strategy, optionSeries[0].underlyingSymbol!, spreadExpiration, spreadStrikes)
+    : undefined;
+
+  // Net prices the legs' quotes imply, beside the best resting spread orders. The book is kept for the
+  // normalized spread, so its prices are turned round when these legs are its other side.
+  const allMarketData = useMarketDataStore(state => state.marketData);
+  const spreadBooks = useMarketDataStore(state => state.spreadBooks);
+  const impliedSpread = spreadLegs && getImpliedSpreadQuote(spreadLegs, symbol => allMarketData.get(symbol));
+  const normalizedSpread = spreadLegs && normalizeSpread(spreadLegs, 'BUY', 0);
+  const spreadBook = normalizedSpread && spreadBooks.get(getSpreadSymbol(normalizedSpread.legs));
+  const spreadFlipped = normalizedSpread?.side === 'SELL';
+  const spreadBookBid = spreadFlipped ? spreadBook?.asks[0] && -spreadBook.asks[0].price : spreadBook?.bids[0]?.price;
+  const spreadBookAsk = spreadFlipped ? spreadBook?.bids[0] && -spreadBook.bids[0].price : spreadBook?.asks[0]?.price;
+
   // Update price when market data changes
   React.useEffect(() => {
-    if (marketData && orderData.orderType === 'LIMIT') {
-      const price = orderData.side === 'BUY' ? marketData.bid : marketData.ask;
+    if (marketData && (orderData.orderType === 'LIMIT' || orderData.orderType === 'ICEBERG')) {
+      const tickSize = selectedInstrument?.tickSize || 0.01;
+      const quote = orderData.side === 'BUY' ? marketData.bid : marketData.ask;
+      
+      // Snap the quote onto the instrument's tick grid so the order passes validation
+      const ticks = orderData.side === 'BUY' ? Math.floor(quote / tickSize + 1e-9) : Math.ceil(quote / tickSize - 1e-9);
+      const price = Number((ticks * tickSize).toFixed(8));
       setOrderData(prev => ({ ...prev, price }));
     }
-  }, [marketData, orderData.side, orderData.orderType]);
+  }, [marketData, selectedInstrument, orderData.side, orderData.orderType]);
+
+  // A directed route only makes sense on a venue that lists the new instrument
+  React.useEffect(() => {
+    setOrderData(prev => ({ ...prev, venue: SMART_ROUTE }));
+  }, [selectedInstrument]);
 
   const handleSubmitOrder = async () => {
     if (!selectedInstrument) {
@@ -79,11 +142,40 @@ export const OrderEntry: React.FC = () => {
       return;
     }
 
+    if (orderData.orderType === 'ICEBERG' && (orderData.displayQuantity <= 0 || orderData.displayQuantity > orderData.quantity)) {
+      toast({
+        title: "Error",
+        description: "Display quantity must be between 1 and the order quantity",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if ((orderData.timeInForce === 'GTD' || orderData.timeInForce === 'GTT') && !orderData.expireDate) {
+      toast({
+        title: "Error",
+        description: "Please set an expiry for this time in force",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const isAlgo = ALGO_ORDER_TYPES.includes(orderData.orderType);
+    const isPov = orderData.orderType === 'POV';
+    if (isAlgo && (orderData.algoDurationMinutes <= 0 || (!isPov && orderData.algoSliceCount < 1))) {
+      toast({
+        title: "Error",
+        description: "Algo duration and slice count must be greater than 0",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       let orderId: string | undefined;
 
       if (orderCategory === 'bracket') {
-        const result = complexOrderService.createBracketOrder({
+        const result = await complexOrderService.createBracketOrder({
           entryOrder: {
             symbol: selectedInstrument.symbol,
             side: orderData.side,
@@ -105,7 +197,8 @@ export const OrderEntry: React.FC = () => {
             triggerPrice: bracketData.stopLossPrice,
             orderType: 'MARKET',
             quantity: orderData.quantity,
-            offsetPercent: bracketData.trailingStop ? bracketData.trailingPercent : undefined,
+            trailType: bracketData.trailingStop ? bracketData.trailType : undefined,
+            trailAmount: bracketData.trailingStop ? bracketData.trailAmount : undefined,
           },
           trailingStop: bracketData.trailingStop,
         });
@@ -115,13 +208,14 @@ export const OrderEntry: React.FC = () => {
           description: `Parent: ${result.parentId}`,
         });
       } else if (orderCategory === 'oco') {
-        const result = complexOrderService.createOCOOrder({
+        const result = await complexOrderService.createOCOOrder({
           primaryOrder: {
             symbol: selectedInstrument.symbol,
             side: orderData.side,
             orderType: ocoData.primaryType,
             quantity: orderData.quantity,
             price: ocoData.primaryPrice,
+            stopPrice: ocoData.primaryPrice,
             timeInForce: orderData.timeInForce,
             gatewayType: orderData.gatewayType,
           },
@@ -141,18 +235,62 @@ export const OrderEntry: React.FC = () => {
           title: "OCO Order Submitted",
           description: `Primary: ${result.primaryId}, Secondary: ${result.secondaryId}`,
         });
+      } else if (orderCategory === 'multileg') {
+        if (!spreadLegs) {
+          toast({
+            title: "Error",
+            description: "Choose strikes listed for this expiry",
+            variant: "destructive",
+          });
+          return;
+        }
+        const result = await complexOrderService.createMultiLegOrder(
+          spreadLegs,
+          orderData.side,
+          orderData.quantity,
+          spreadData.netPrice,
+          orderData.timeInForce
+        );
+        orderId = result.orderId;
+        toast({
+          title: "Spread Order Submitted",
+          description: `${result.symbol} at net ${formatPrice(spreadData.netPrice)}`,
+        });
       } else {
         orderId = await orderService.submitOrder({
           symbol: selectedInstrument.symbol,
           side: orderData.side,
           orderType: orderData.orderType,
           quantity: orderData.quantity,
-          price: orderData.orderType === 'MARKET' ? undefined : orderData.price,
+          price: orderData.orderType === 'MARKET' ? undefined
+            : isAlgo ? (orderData.algoLimitPrice > 0 ? orderData.algoLimitPrice : undefined)
+            : orderData.price,
           stopPrice: orderData.orderType === 'STOP' || orderData.orderType === 'STOP_LIMIT'
             ? orderData.stopPrice : undefined,
+          triggerType: orderData.orderType === 'STOP' || orderData.orderType === 'STOP_LIMIT' || orderData.orderType === 'TRAILING_STOP'
+            ? orderData.triggerType : undefined,
+          trailType: orderData.orderType === 'TRAILING_STOP' ? orderData.trailType : undefined,
+          trailAmount: orderData.orderType === 'TRAILING_STOP' ? orderData.trailAmount : undefined,
           timeInForce: orderData.timeInForce,
           gatewayType: orderData.gatewayType,
           expireDate: orderData.expireDate,
+          displayQuantity: orderData.orderType === 'ICEBERG' ? orderData.displayQuantity : undefined,
+          traderId: orderData.traderId,
+          pegType: orderData.orderType === 'PEGGED' ? orderData.pegType : undefined,
+          pegOffset: orderData.orderType === 'PEGGED' ? orderData.pegOffset : undefined,
+          venue: orderData.venue,
+          minQuantity: orderData.venue === DARK_POOL.id && orderData.minQuantity > 0 ? orderData.minQuantity : undefined,
+          algoParams: isAlgo ? {
+            startTime: Date.now(),
+            endTime: Date.now() + orderData.algoDurationMinutes * 60000,
+            sliceCount: isPov ? undefined : orderData.algoSliceCount,
+            childOrderType: orderData.algoChildOrderType,
+            maxParticipationRate: !isPov && orderData.algoMaxParticipationPercent > 0
+              ? orderData.algoMaxParticipationPercent / 100 : undefined,
+            targetParticipationRate: isPov ? orderData.algoTargetParticipationPercent / 100 : undefined,
+            urgency: isPov ? orderData.algoUrgency : undefined,
+            riskAversion: orderData.orderType === 'IMPLEMENTATION_SHORTFALL' ? orderData.algoRiskAversion : undefined,
+          } : undefined,
         });
         toast({
           title: "Order Submitted",
@@ -167,14 +305,17 @@ export const OrderEntry: React.FC = () => {
     } catch (error) {
       toast({
         title: "Order Failed",
-        description: "Failed to submit order",
+        description: error instanceof Error ? error.message : "Failed to submit order",
         variant: "destructive",
       });
     }
   };
 
   const calculateOrderValue = () => {
-    const price = orderData.orderType === 'MARKET' 
+    if (orderCategory === 'multileg') {
+      return spreadData.netPrice * orderData.quantity;
+    }
+    const price = orderData.orderType === 'MARKET' || orderData.orderType === 'PEGGED'
       ? (marketData?.price || 0)
       : orderData.price;
     return price * orderData.quantity;
@@ -254,9 +395,13 @@ export const OrderEntry: React.FC = () => {
               <SelectItem value="LIMIT">Limit</SelectItem>
               <SelectItem value="STOP">Stop</SelectItem>
               <SelectItem value="STOP_LIMIT">Stop Limit</SelectItem>
+              <SelectItem value="TRAILING_STOP">Trailing Stop</SelectItem>
               <SelectItem value="ICEBERG">Iceberg</SelectItem>
+              <SelectItem value="PEGGED">Pegged</SelectItem>
               <SelectItem value="TWAP">TWAP</SelectItem>
               <SelectItem value="VWAP">VWAP</SelectItem>
+              <SelectItem value="POV">POV</SelectItem>
+              <SelectItem value="IMPLEMENTATION_SHORTFALL">Implementation Shortfall</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -281,12 +426,13 @@ export const OrderEntry: React.FC = () => {
               ...prev, 
               quantity: parseInt(e.target.value) || 0 
             }))}
-            min="1"
+            min={selectedInstrument?.lotSize || 1}
+            step={selectedInstrument?.lotSize || 1}
           />
         </div>
 
         {/* Price Fields */}
-        {(orderData.orderType === 'LIMIT' || orderData.orderType === 'STOP_LIMIT') && (
+        {(orderData.orderType === 'LIMIT' || orderData.orderType === 'STOP_LIMIT' || orderData.orderType === 'ICEBERG') && (
           <div data-tutorial="price">
             <Label className="text-xs">Price</Label>
             <Input
@@ -296,28 +442,290 @@ export const OrderEntry: React.FC = () => {
                 ...prev, 
                 price: parseFloat(e.target.value) || 0 
               }))}
-              step="0.01"
+              step={selectedInstrument?.tickSize || 0.01}
               min="0"
             />
           </div>
         )}
 
-        {(orderData.orderType === 'STOP' || orderData.orderType === 'STOP_LIMIT') && (
+        {orderData.orderType === 'ICEBERG' && (
           <div>
-            <Label className="text-xs">Stop Price</Label>
+            <Label className="text-xs">Display Quantity</Label>
             <Input
               type="number"
-              value={orderData.stopPrice}
+              value={orderData.displayQuantity}
               onChange={(e) => setOrderData(prev => ({ 
                 ...prev, 
-                stopPrice: parseFloat(e.target.value) || 0 
+                displayQuantity: parseInt(e.target.value) || 0 
               }))}
-              step="0.01"
-              min="0"
+              min="1"
+              max={orderData.quantity}
             />
           </div>
         )}
 
+        {orderData.orderType === 'PEGGED' && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs">Peg Type</Label>
+              <Select
+                value={orderData.pegType}
+                onValueChange={(value: PegType) =>
+                  setOrderData(prev => ({ ...prev, pegType: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PRIMARY">Primary</SelectItem>
+                  <SelectItem value="MIDPOINT">Midpoint</SelectItem>
+                  <SelectItem value="MARKET">Market</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Peg Offset</Label>
+              <Input
+                type="number"
+                value={orderData.pegOffset}
+                onChange={(e) => setOrderData(prev => ({ 
+                  ...prev, 
+                  pegOffset: parseFloat(e.target.value) || 0 
+                }))}
+                step="0.01"
+                min="0"
+              />
+            </div>
+          </div>
+        )}
+
+        {orderData.orderType === 'TRAILING_STOP' && (
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label className="text-xs">Trail By</Label>
+              <Select
+                value={orderData.trailType}
+                onValueChange={(value: TrailType) =>
+                  setOrderData(prev => ({ ...prev, trailType: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ABSOLUTE">Price</SelectItem>
+                  <SelectItem value="PERCENTAGE">Percent</SelectItem>
+                  <SelectItem value="ATR">ATR</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">
+                {orderData.trailType === 'ABSOLUTE' ? 'Trail Amount' : orderData.trailType === 'PERCENTAGE' ? 'Trail %' : 'ATR Multiple'}
+              </Label>
+              <Input
+                type="number"
+                value={orderData.trailAmount}
+                onChange={(e) => setOrderData(prev => ({ 
+                  ...prev, 
+                  trailAmount: parseFloat(e.target.value) || 0 
+                }))}
+                step={orderData.trailType === 'ABSOLUTE' ? selectedInstrument?.tickSize || 0.01 : 0.1}
+                min="0"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Trigger On</Label>
+              <Select
+                value={orderData.triggerType}
+                onValueChange={(value: StopTriggerType) =>
+                  setOrderData(prev => ({ ...prev, triggerType: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="LAST">Last</SelectItem>
+                  <SelectItem value="BID">Bid</SelectItem>
+                  <SelectItem value="ASK">Ask</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {(orderData.orderType === 'STOP' || orderData.orderType === 'STOP_LIMIT') && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs">Stop Price</Label>
+              <Input
+                type="number"
+                value={orderData.stopPrice}
+                onChange={(e) => setOrderData(prev => ({ 
+                  ...prev, 
+                  stopPrice: parseFloat(e.target.value) || 0 
+                }))}
+                step={selectedInstrument?.tickSize || 0.01}
+                min="0"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Trigger On</Label>
+              <Select
+                value={orderData.triggerType}
+                onValueChange={(value: StopTriggerType) =>
+                  setOrderData(prev => ({ ...prev, triggerType: value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="LAST">Last</SelectItem>
+                  <SelectItem value="BID">Bid</SelectItem>
+                  <SelectItem value="ASK">Ask</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {ALGO_ORDER_TYPES.includes(orderData.orderType) && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-xs">Duration (min)</Label>
+                <Input
+                  type="number"
+                  value={orderData.algoDurationMinutes}
+                  onChange={(e) => setOrderData(prev => ({ 
+                    ...prev, 
+                    algoDurationMinutes: parseFloat(e.target.value) || 0 
+                  }))}
+                  min="1"
+                />
+              </div>
+              {orderData.orderType === 'POV' ? (
+                <div>
+                  <Label className="text-xs">Target Participation %</Label>
+                  <Input
+                    type="number"
+                    value={orderData.algoTargetParticipationPercent}
+                    onChange={(e) => setOrderData(prev => ({ 
+                      ...prev, 
+                      algoTargetParticipationPercent: parseFloat(e.target.value) || 0 
+                    }))}
+                    min="1"
+                    max="99"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <Label className="text-xs">Slices</Label>
+                  <Input
+                    type="number"
+                    value={orderData.algoSliceCount}
+                    onChange={(e) => setOrderData(prev => ({ 
+                      ...prev, 
+                      algoSliceCount: parseInt(e.target.value) || 0 
+                    }))}
+                    min="1"
+                    max={orderData.quantity}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {orderData.orderType === 'POV' ? (
+                <div>
+                  <Label className="text-xs">Urgency</Label>
+                  <Select
+                    value={orderData.algoUrgency}
+                    onValueChange={(value: AlgoUrgency) =>
+                      setOrderData(prev => ({ ...prev, algoUrgency: value }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="LOW">Low (passive)</SelectItem>
+                      <SelectItem value="MEDIUM">Medium</SelectItem>
+                      <SelectItem value="HIGH">High (crossing)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div>
+                  <Label className="text-xs">Child Orders</Label>
+                  <Select
+                    value={orderData.algoChildOrderType}
+                    onValueChange={(value: AlgoChildOrderType) =>
+                      setOrderData(prev => ({ ...prev, algoChildOrderType: value }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="LIMIT">Passive Limit</SelectItem>
+                      <SelectItem value="MARKET">Market</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label className="text-xs">Limit Price (0 = none)</Label>
+                <Input
+                  type="number"
+                  value={orderData.algoLimitPrice}
+                  onChange={(e) => setOrderData(prev => ({ 
+                    ...prev, 
+                    algoLimitPrice: parseFloat(e.target.value) || 0 
+                  }))}
+                  step={selectedInstrument?.tickSize || 0.01}
+                  min="0"
+                />
+              </div>
+            </div>
+            {orderData.orderType !== 'POV' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-xs">Max Participation % (0 = none)</Label>
+                  <Input
+                    type="number"
+                    value={orderData.algoMaxParticipationPercent}
+                    onChange={(e) => setOrderData(prev => ({ 
+                      ...prev, 
+                      algoMaxParticipationPercent: parseFloat(e.target.value) || 0 
+                    }))}
+                    min="0"
+                    max="100"
+                  />
+                </div>
+                {orderData.orderType === 'IMPLEMENTATION_SHORTFALL' && (
+                  <div>
+                    <Label className="text-xs">Risk Aversion (0-1)</Label>
+                    <Input
+                      type="number"
+                      value={orderData.algoRiskAversion}
+                      onChange={(e) => setOrderData(prev => ({ 
+                        ...prev, 
+                        algoRiskAversion: parseFloat(e.target.value) || 0 
+                      }))}
+                      step="0.1"
+                      min="0"
+                      max="1"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Advanced Options Toggle */}
         <div className="flex items-center space-x-2">
           <Switch
@@ -357,16 +765,35 @@ export const OrderEntry: React.FC = () => {
               <Label className="text-xs">Trailing Stop</Label>
             </div>
             {bracketData.trailingStop && (
-              <div>
-                <Label className="text-xs">Trailing % Offset</Label>
-                <Input
-                  type="number"
-                  value={bracketData.trailingPercent}
-                  onChange={(e) => setBracketData(prev => ({ ...prev, trailingPercent: parseFloat(e.target.value) || 0 }))}
-                  step="0.1"
-                  min="0"
-                  max="100"
-                />
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-xs">Trail By</Label>
+                  <Select
+                    value={bracketData.trailType}
+                    onValueChange={(value: TrailType) => setBracketData(prev => ({ ...prev, trailType: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ABSOLUTE">Price</SelectItem>
+                      <SelectItem value="PERCENTAGE">Percent</SelectItem>
+                      <SelectItem value="ATR">ATR</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs">
+                    {bracketData.trailType === 'ABSOLUTE' ? 'Trail Amount' : bracketData.trailType === 'PERCENTAGE' ? 'Trail %' : 'ATR Multiple'}
+                  </Label>
+                  <Input
+                    type="number"
+                    value={bracketData.trailAmount}
+                    onChange={(e) => setBracketData(prev => ({ ...prev, trailAmount: parseFloat(e.target.value) || 0 }))}
+                    step="0.1"
+                    min="0"
+                  />
+                </div>
               </div>
             )}
           </div>
@@ -396,6 +823,111 @@ export const OrderEntry: React.FC = () => {
           </div>
         )}
 
+        {orderCategory === 'multileg' && (
+          <div className="space-y-3 p-3 bg-muted/30 rounded">
+            <Label className="text-xs font-semibold">Spread Settings</Label>
+            {optionSeries.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No options are listed on {selectedInstrument.symbol}</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label className="text-xs">Strategy</Label>
+                    <Select
+                      value={spreadData.strategy}
+                      onValueChange={(value: SpreadStrategy) => setSpreadData(prev => ({ ...prev, strategy: value, strikes: [] }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="CALL_VERTICAL">Call Vertical</SelectItem>
+                        <SelectItem value="PUT_VERTICAL">Put Vertical</SelectItem>
+                        <SelectItem value="STRADDLE">Straddle</SelectItem>
+                        <SelectItem value="IRON_CONDOR">Iron Condor</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-xs">Expiry</Label>
+                    <Select
+                      value={spreadExpiration}
+                      onValueChange={(value: string) => setSpreadData(prev => ({ ...prev, expirationDate: value, strikes: [] }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {expirations.map(expiration => (
+                          <SelectItem key={expiration} value={expiration}>{expiration}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-2">
+                  {spreadStrikes.map((strike, index) => (
+                    <div key={index}>
+                      <Label className="text-xs">Strike {index + 1}</Label>
+                      <Select
+                        value={String(strike)}
+                        onValueChange={(value: string) => setSpreadData(prev => {
+                          const strikes = [...spreadStrikes];
+                          strikes[index] = Number(value);
+                          return { ...prev, strikes };
+                        })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {strikeChoices.map(choice => (
+                            <SelectItem key={choice} value={String(choice)}>{choice}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                {spreadLegs ? (
+                  <div className="space-y-1 text-xs font-mono">
+                    {spreadLegs.map(leg => (
+                      <div key={leg.legId} className={leg.side === 'BUY' ? 'text-green-500' : 'text-red-500'}>
+                        {leg.side} {leg.ratio} {leg.symbol}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-destructive">These strikes are not listed for {spreadExpiration}</p>
+                )}
+                <div>
+                  <Label className="text-xs">Net Price (negative for a credit)</Label>
+                  <Input
+                    type="number"
+                    value={spreadData.netPrice}
+                    onChange={(e) => setSpreadData(prev => ({ ...prev, netPrice: parseFloat(e.target.value) || 0 }))}
+                    step="0.01"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <div>
+                    <div className="text-muted-foreground">Implied</div>
+                    <div className="font-mono">
+                      {impliedSpread ? `${formatPrice(impliedSpread.bid)} / ${formatPrice(impliedSpread.ask)}` : '-'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-muted-foreground">Spread Book</div>
+                    <div className="font-mono">
+                      {spreadBookBid !== undefined ? formatPrice(spreadBookBid) : '-'} / {spreadBookAsk !== undefined ? formatPrice(spreadBookAsk) : '-'}
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {isAdvanced && (
           <>
             <Separator />
@@ -406,7 +938,7 @@ export const OrderEntry: React.FC = () => {
               <Select
                 value={orderData.timeInForce}
                 onValueChange={(value: TimeInForce) =>
-                  setOrderData(prev => ({ ...prev, timeInForce: value }))
+                  setOrderData(prev => ({ ...prev, timeInForce: value, expireDate: undefined }))
                 }
               >
                 <SelectTrigger>
@@ -421,6 +953,7 @@ export const OrderEntry: React.FC = () => {
                   <SelectItem value="ATC">At The Close</SelectItem>
                   <SelectItem value="ATO">At The Open</SelectItem>
                   <SelectItem value="GTT">Good Till Time</SelectItem>
+                  <SelectItem value="GFS">Good For Session</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -439,6 +972,29 @@ export const OrderEntry: React.FC = () => {
               </div>
             )}
 
+            {/* Expire Time for GTT */}
+            {orderData.timeInForce === 'GTT' && (
+              <div>
+                <Label className="text-xs">Expire Time</Label>
+                <Input
+                  type="datetime-local"
+                  onChange={(e) => setOrderData(prev => ({
+                    ...prev,
+                    expireDate: e.target.value ? new Date(e.target.value).getTime() : undefined
+                  }))}
+                />
+              </div>
+            )}
+
+            {/* Trader ID (self-trade prevention) */}
+            <div>
+              <Label className="text-xs">Trader ID</Label>
+              <Input
+                value={orderData.traderId}
+                onChange={(e) => setOrderData(prev => ({ ...prev, traderId: e.target.value }))}
+              />
+            </div>
+
             {/* Gateway Type */}
             <div>
               <Label className="text-xs">Gateway</Label>
@@ -457,6 +1013,50 @@ export const OrderEntry: React.FC = () => {
                 </SelectContent>
               </Select>
             </div>
+
+            {/* Route: smart routing sweeps every venue, a venue id sends the whole order there */}
+            {(venues.length > 1 || darkPoolEligible) && (
+              <div>
+                <Label className="text-xs">Route</Label>
+                <Select
+                  value={orderData.venue}
+                  onValueChange={(value: string) =>
+                    setOrderData(prev => ({ ...prev, venue: value }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SMART_ROUTE}>Smart</SelectItem>
+                    {venues.map(venue => (
+                      <SelectItem key={venue.id} value={venue.id}>{venue.name}</SelectItem>
+                    ))}
+                    {darkPoolEligible && (
+                      <SelectItem value={DARK_POOL.id}>{DARK_POOL.name}</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* Dark orders only execute in blocks of at least this size */}
+            {orderData.venue === DARK_POOL.id && (
+              <div>
+                <Label className="text-xs">Min Quantity</Label>
+                <Input
+                  type="number"
+                  value={orderData.minQuantity}
+                  onChange={(e) => setOrderData(prev => ({
+                    ...prev,
+                    minQuantity: parseInt(e.target.value) || 0
+                  }))}
+                  min="0"
+                  max={orderData.quantity}
+                  step={selectedInstrument?.lotSize || 1}
+                />
+              </div>
+            )}
           </>
         )}
 
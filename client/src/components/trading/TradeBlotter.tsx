@@ -4,7 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Search } from 'lucide-react';
 import { useOrderStore } from '@/stores/useOrderStore';
-import { formatPrice, formatTimestamp, formatCurrency } from '@/utils/formatters';
+import { formatPrice, formatTimestamp, formatCurrency, formatFee } from '@/utils/formatters';
 
 export const TradeBlotter: React.FC = () => {
   const { trades } = useOrderStore();
@@ -16,7 +16,8 @@ export const TradeBlotter: React.FC = () => {
     if (searchTerm) {
       filtered = filtered.filter(trade =>
         trade.symbol.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        trade.id.toLowerCase().includes(searchTerm.toLowerCase())
+        trade.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        trade.venue?.toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
     
@@ -27,6 +28,15 @@ export const TradeBlotter: React.FC = () => {
     return filteredTrades.reduce((sum, trade) => sum + (trade.price * trade.quantity), 0);
   };
 
+  // Negative fees are rebates paid to the trader
+  const getTotalFees = () => {
+    return filteredTrades.reduce((sum, trade) => sum + (trade.fee || 0), 0);
+  };
+
+  const getFeeColor = (fee: number) => {
+    return fee < 0 ? 'text-green-500' : 'text-muted-foreground';
+  };
+
   const getSideColor = (side: string) => {
     return side === 'BUY' ? 'text-green-500' : 'text-red-500';
   };
@@ -58,12 +68,14 @@ export const TradeBlotter: React.FC = () => {
       <CardContent className="p-0">
         <div className="h-full flex flex-col">
           {/* Header */}
-          <div className="grid grid-cols-6 gap-1 px-3 py-2 bg-muted/50 text-xs font-semibold border-b">
+          <div className="grid grid-cols-8 gap-1 px-3 py-2 bg-muted/50 text-xs font-semibold border-b">
             <div>Symbol</div>
             <div>Side</div>
             <div>Qty</div>
             <div>Price</div>
             <div>Value</div>
+            <div>Venue</div>
+            <div>Fee</div>
             <div>Time</div>
           </div>
           
@@ -78,7 +90,7 @@ export const TradeBlotter: React.FC = () => {
                 {filteredTrades.map((trade) => (
                   <div
                     key={trade.id}
-                    className="grid grid-cols-6 gap-1 px-3 py-2 text-xs hover:bg-muted/30 border-b"
+                    className="grid grid-cols-8 gap-1 px-3 py-2 text-xs hover:bg-muted/30 border-b"
                   >
                     <div className="font-medium">{trade.symbol}</div>
                     <div className={`font-medium ${getSideColor(trade.side)}`}>
@@ -89,6 +101,19 @@ export const TradeBlotter: React.FC = () => {
                     <div className="font-mono">
                       {formatCurrency(trade.price * trade.quantity)}
                     </div>
+                    <div className="flex items-center gap-1">
+                      <span className={trade.darkPool ? 'italic' : ''} title={trade.darkPool ? 'Dark pool execution' : undefined}>
+                        {trade.venue || '-'}
+                      </span>
+                      {trade.liquidity && (
+                        <Badge variant="outline" className="text-[10px] px-1 py-0">
+                          {trade.liquidity === 'MAKER' ? 'M' : 'T'}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className={`font-mono ${getFeeColor(trade.fee || 0)}`}>
+                      {trade.fee !== undefined ? formatFee(trade.fee) : '-'}
+                    </div>
                     <div className="font-mono text-muted-foreground">
                       {formatTimestamp(trade.timestamp)}
                     </div>
@@ -106,6 +131,9 @@ export const TradeBlotter: React.FC = () => {
                 <span className="font-mono">
                   Total Value: {formatCurrency(getTotalValue())}
                 </span>
+                <span className={`font-mono ${getFeeColor(getTotalFees())}`}>
+                  Fees: {formatFee(getTotalFees())}
+                </span>
               </div>
             </div>
           )}
@@ -5,6 +5,7 @@ import { MarketDepth } from './MarketDepth';
 import { OrderBlotter } from './OrderBlotter';
 import { TradeBlotter } from './TradeBlotter';
 import { PositionBlotter } from './PositionBlotter';
+import { ConditionalOrders } from './ConditionalOrders';
 import { TradingChart } from '@/components/charts/TradingChart';
 import { Watchlist } from '@/components/market/Watchlist';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -71,10 +72,11 @@ export const TradingWorkstation: React.FC = () => {
           <ResizablePanel defaultSize={25} minSize={20}>
             <div className="h-full flex flex-col">
               <Tabs defaultValue="orders" className="flex-1 flex flex-col">
-                <TabsList className="grid w-full grid-cols-3 bg-muted/50 border-b">
+                <TabsList className="grid w-full grid-cols-4 bg-muted/50 border-b">
                   <TabsTrigger value="orders" className="text-xs">Orders</TabsTrigger>
                   <TabsTrigger value="trades" className="text-xs">Trades</TabsTrigger>
                   <TabsTrigger value="positions" className="text-xs">Positions</TabsTrigger>
+                  <TabsTrigger value="conditional" className="text-xs">Conditional</TabsTrigger>
                 </TabsList>
                 
                 <TabsContent value="orders" className="flex-1 p-0 m-0">
@@ -88,6 +90,10 @@ export const TradingWorkstation: React.FC = () => {
                 <TabsContent value="positions" className="flex-1 p-0 m-0">
                   <PositionBlotter />
                 </TabsContent>
+                
+                <TabsContent value="conditional" className="flex-1 p-0 m-0">
+                  <ConditionalOrders />
+                </TabsContent>
               </Tabs>
             </div>
           </ResizablePanel>
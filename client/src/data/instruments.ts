@@ -259,6 +259,11 @@ export const instruments: Instrument[] = [
     multiplier: 50,
     expirationDate: '2024-06-21',
     underlyingSymbol: 'SPX',
+    matchingAlgorithm: 'FIFO_PRO_RATA',
+    leadMarketMaker: {
+      traderId: 'LMM_ES',
+      allocationPercent: 40
+    },
     tradingHours: {
       open: '17:00',
       close: '16:00',
@@ -276,6 +281,7 @@ export const instruments: Instrument[] = [
     multiplier: 20,
     expirationDate: '2024-06-21',
     underlyingSymbol: 'NDX',
+    matchingAlgorithm: 'PRO_RATA',
     tradingHours: {
       open: '17:00',
       close: '16:00',
@@ -284,9 +290,85 @@ export const instruments: Instrument[] = [
   },
   
   // Options
+  {
+    symbol: 'AAPL240621C00170000',
+    name: 'Apple 170 Call Option',
+    assetClass: 'OPTIONS',
+    exchange: 'CBOE',
+    currency: 'USD',
+    lotSize: 1,
+    tickSize: 0.01,
+    multiplier: 100,
+    expirationDate: '2024-06-21',
+    underlyingSymbol: 'AAPL',
+    strikePrice: 170,
+    optionType: 'CALL',
+    tradingHours: {
+      open: '09:30',
+      close: '16:00',
+      timezone: 'ET'
+    }
+  },
+  {
+    symbol: 'AAPL240621P00170000',
+    name: 'Apple 170 Put Option',
+    assetClass: 'OPTIONS',
+    exchange: 'CBOE',
+    currency: 'USD',
+    lotSize: 1,
+    tickSize: 0.01,
+    multiplier: 100,
+    expirationDate: '2024-06-21',
+    underlyingSymbol: 'AAPL',
+    strikePrice: 170,
+    optionType: 'PUT',
+    tradingHours: {
+      open: '09:30',
+      close: '16:00',
+      timezone: 'ET'
+    }
+  },
+  {
+    symbol: 'AAPL240621C00175000',
+    name: 'Apple 175 Call Option',
+    assetClass: 'OPTIONS',
+    exchange: 'CBOE',
+    currency: 'USD',
+    lotSize: 1,
+    tickSize: 0.01,
+    multiplier: 100,
+    expirationDate: '2024-06-21',
+    underlyingSymbol: 'AAPL',
+    strikePrice: 175,
+    optionType: 'CALL',
+    tradingHours: {
+      open: '09:30',
+      close: '16:00',
+      timezone: 'ET'
+    }
+  },
+  {
+    symbol: 'AAPL240621P00175000',
+    name: 'Apple 175 Put Option',
+    assetClass: 'OPTIONS',
+    exchange: 'CBOE',
+    currency: 'USD',
+    lotSize: 1,
+    tickSize: 0.01,
+    multiplier: 100,
+    expirationDate: '2024-06-21',
+    underlyingSymbol: 'AAPL',
+    strikePrice: 175,
+    optionType: 'PUT',
+    tradingHours: {
+      open: '09:30',
+      close: '16:00',
+      timezone: 'ET'
+    }
+  },
   {
     symbol: 'AAPL240621C00180000',
-    name: 'Apple Call Option',
+    name: 'Apple 180 Call Option',
     assetClass: 'OPTIONS',
     exchange: 'CBOE',
     currency: 'USD',
@@ -305,7 +387,7 @@ export const instruments: Instrument[] = [
   },
   {
     symbol: 'AAPL240621P00180000',
-    name: 'Apple Put Option',
+    name: 'Apple 180 Put Option',
     assetClass: 'OPTIONS',
     exchange: 'CBOE',
     currency: 'USD',
@@ -322,6 +404,82 @@ export const instruments: Instrument[] = [
       timezone: 'ET'
     }
   },
+  {
+    symbol: 'AAPL240621C00185000',
+    name: 'Apple 185 Call Option',
+    assetClass: 'OPTIONS',
+    exchange: 'CBOE',
+    currency: 'USD',
+    lotSize: 1,
+    tickSize: 0.01,
+    multiplier: 100,
+    expirationDate: '2024-06-21',
+    underlyingSymbol: 'AAPL',
+    strikePrice: 185,
+    optionType: 'CALL',
+    tradingHours: {
+      open: '09:30',
+      close: '16:00',
+      timezone: 'ET'
+    }
+  },
+  {
+    symbol: 'AAPL240621P00185000',
+    name: 'Apple 185 Put Option',
+    assetClass: 'OPTIONS',
+    exchange: 'CBOE',
+    currency: 'USD',
+    lotSize: 1,
+    tickSize: 0.01,
+    multiplier: 100,
+    expirationDate: '2024-06-21',
+    underlyingSymbol: 'AAPL',
+    strikePrice: 185,
+    optionType: 'PUT',
+    tradingHours: {
+      open: '09:30',
+      close: '16:00',
+      timezone: 'ET'
+    }
+  },
+  {
+    symbol: 'AAPL240621C00190000',
+    name: 'Apple 190 Call Option',
+    assetClass: 'OPTIONS',
+    exchange: 'CBOE',
+    currency: 'USD',
+    lotSize: 1,
+    tickSize: 0.01,
+    multiplier: 100,
+    expirationDate: '2024-06-21',
+    underlyingSymbol: 'AAPL',
+    strikePrice: 190,
+    optionType: 'CALL',
+    tradingHours: {
+      open: '09:30',
+      close: '16:00',
+      timezone: 'ET'
+    }
+  },
+  {
+    symbol: 'AAPL240621P00190000',
+    name: 'Apple 190 Put Option',
+    assetClass: 'OPTIONS',
+    exchange: 'CBOE',
+    currency: 'USD',
+    lotSize: 1,
+    tickSize: 0.01,
+    multiplier: 100,
+    expirationDate: '2024-06-21',
+    underlyingSymbol: 'AAPL',
+    strikePrice: 190,
+    optionType: 'PUT',
+    tradingHours: {
+      open: '09:30',
+      close: '16:00',
+      timezone: 'ET'
+    }
+  },
   
   // Forex
   {
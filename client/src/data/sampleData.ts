@@ -19,8 +19,16 @@ const basePriceMap: Record<string, number> = {
   'CVX': 158.90,
   'ESM4': 5025.50,
   'NQM4': 18350.75,
+  'AAPL240621C00170000': 12.90,
+  'AAPL240621P00170000': 3.10,
+  'AAPL240621C00175000': 10.50,
+  'AAPL240621P00175000': 4.45,
   'AAPL240621C00180000': 8.50,
   'AAPL240621P00180000': 6.25,
+  'AAPL240621C00185000': 6.80,
+  'AAPL240621P00185000': 8.55,
+  'AAPL240621C00190000': 5.35,
+  'AAPL240621P00190000': 11.10,
   'EURUSD': 1.0875,
   'GBPUSD': 1.2650,
   'USDJPY': 149.25,
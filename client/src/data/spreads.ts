@@ -0,0 +1,148 @@
+import { Instrument } from '@/types/market';
+import { ImpliedQuote, Order, OrderLeg, OrderSide, SpreadStrategy } from '@/types/trading';
+import { instruments } from './instruments';
+
+// Top of an outright book as a spread sees it
+export interface LegQuote {
+  bid: number;
+  bidSize: number;
+  ask: number;
+  askSize: number;
+}
+
+export type LegQuoteSource = (symbol: string) => LegQuote | undefined;
+
+const SPREAD_TICK = 0.01;
+
+export const SPREAD_STRIKE_COUNTS: Record<SpreadStrategy, number> = {
+  CALL_VERTICAL: 2,
+  PUT_VERTICAL: 2,
+  STRADDLE: 1,
+  IRON_CONDOR: 4,
+};
+
+// Listed options on an underlying, by expiry then strike
+export const getOptionSeries = (underlying: string): Instrument[] => {
+  return instruments
+    .filter(instrument => instrument.assetClass === 'OPTIONS' && instrument.underlyingSymbol === underlying)
+    .sort((a, b) => (a.expirationDate || '').localeCompare(b.expirationDate || '') || (a.strikePrice || 0) - (b.strikePrice || 0));
+};
+
+// One unit of the strategy, strikes ascending. Buying it trades the legs as given:
+// verticals buy the nearer-the-money strike, and the iron condor sells the inner strikes for a credit.
+export const buildSpreadLegs = (
+  strategy: SpreadStrategy,
+  underlying: string,
+  expirationDate: string,
+  strikes: number[]
+): OrderLeg[] | undefined => {
+  const series = getOptionSeries(underlying).filter(instrument => instrument.expirationDate === expirationDate);
+  const find = (optionType: 'CALL' | 'PUT', strike: number) =>
+    series.find(instrument => instrument.optionType === optionType && instrument.strikePrice === strike)?.symbol;
+
+  const [low, high] = strikes;
+  const legs: Array<[string | undefined, OrderSide]> =
+    strategy === 'CALL_VERTICAL' ? [[find('CALL', low), 'BUY'], [find('CALL', high), 'SELL']]
+    : strategy === 'PUT_VERTICAL' ? [[find('PUT', high), 'BUY'], [find('PUT', low), 'SELL']]
+    : strategy === 'STRADDLE' ? [[find('CALL', low), 'BUY'], [find('PUT', low), 'BUY']]
+    : [[find('PUT', strikes[0]), 'BUY'], [find('PUT', strikes[1]), 'SELL'], [find('CALL', strikes[2]), 'SELL'], [find('CALL', strikes[3]), 'BUY']];
+
+  if (legs.some(([symbol]) => !symbol)) return undefined;
+
+  return legs.map(([symbol, side], index) => ({
+    legId: `LEG_${index + 1}`,
+    symbol: symbol!,
+    side,
+    quantity: 1,
+    ratio: 1,
+    orderType: 'LIMIT',
+  }));
+};
+
+// Every spread has one book: legs sorted by symbol with the first one bought. A spread entered the
+// other way round is the same spread on the other side, at the negated price.
+export const normalizeSpread = (legs: OrderLeg[], side: OrderSide, price: number) => {
+  const sorted = [...legs].sort((a, b) => a.symbol.localeCompare(b.symbol));
+  if (sorted[0].side === 'BUY') return { legs: sorted, side, price };
+
+  return {
+    legs: sorted.map(leg => ({ ...leg, side: flipSide(leg.side) })),
+    side: flipSide(side),
+    price: -price,
+  };
+};
+
+export const getSpreadSymbol = (legs: OrderLeg[]): string => {
+  return legs.map(leg => `${leg.side === 'BUY' ? '+' : '-'}${leg.ratio > 1 ? leg.ratio : ''}${leg.symbol}`).join(' ');
+};
+
+// The legs as an order on the spread trades them: selling the spread reverses every leg
+export const getTradedLegs = (order: Pick<Order, 'legs' | 'side'>): OrderLeg[] => {
+  return (order.legs || []).map(leg => order.side === 'BUY' ? leg : { ...leg, side: flipSide(leg.side) });
+};
+
+// The most an order may pay for one spread's legs; a sell order must take in at least its price
+export const getLimitCost = (order: Pick<Order, 'side' | 'price'>): number => {
+  return order.side === 'BUY' ? order.price! : -order.price!;
+};
+
+// Net prices for one spread from the far touch of every leg, and how many spreads the touch sizes cover
+export const getImpliedSpreadQuote = (legs: OrderLeg[], getQuote: LegQuoteSource) => {
+  const quotes = legs.map(leg => getQuote(leg.symbol));
+  if (quotes.some(quote => !quote)) return undefined;
+
+  let bid = 0;
+  let ask = 0;
+  let bidSize = Infinity;
+  let askSize = Infinity;
+  legs.forEach((leg, index) => {
+    const quote = quotes[index]!;
+    if (leg.side === 'BUY') {
+      ask += leg.ratio * quote.ask;
+      bid += leg.ratio * quote.bid;
+      askSize = Math.min(askSize, Math.floor(quote.askSize / leg.ratio));
+      bidSize = Math.min(bidSize, Math.floor(quote.bidSize / leg.ratio));
+    } else {
+      ask -= leg.ratio * quote.bid;
+      bid -= leg.ratio * quote.ask;
+      askSize = Math.min(askSize, Math.floor(quote.bidSize / leg.ratio));
+      bidSize = Math.min(bidSize, Math.floor(quote.askSize / leg.ratio));
+    }
+  });
+
+  return { bid: roundToSpreadTick(bid), bidSize, ask: roundToSpreadTick(ask), askSize };
+};
+
+// The outright price a resting spread order implies for one of its legs: whatever is left of its
+// limit once every other leg is bought at the offer or sold at the bid. Quantity is in leg contracts.
+export const getImpliedInQuote = (order: Order, symbol: string, getQuote: LegQuoteSource): ImpliedQuote | undefined => {
+  const legs = getTradedLegs(order);
+  const leg = legs.find(candidate => candidate.symbol === symbol);
+  if (!leg || order.price === undefined) return undefined;
+
+  let otherCost = 0;
+  let spreads = order.quantity - order.filledQuantity;
+  for (const other of legs) {
+    if (other === leg) continue;
+    const quote = getQuote(other.symbol);
+    if (!quote) return undefined;
+    otherCost += other.side === 'BUY' ? other.ratio * quote.ask : -other.ratio * quote.bid;
+    spreads = Math.min(spreads, Math.floor((other.side === 'BUY' ? quote.askSize : quote.bidSize) / other.ratio));
+  }
+  if (spreads <= 0) return undefined;
+
+  // The spread buying this leg bids for it; selling it, offers it. Rounding never gives away the spread's limit.
+  const limitCost = getLimitCost(order);
+  const price = leg.side === 'BUY'
+    ? Math.floor(((limitCost - otherCost) / leg.ratio) / SPREAD_TICK + 1e-9) * SPREAD_TICK
+    : Math.ceil(((otherCost - limitCost) / leg.ratio) / SPREAD_TICK - 1e-9) * SPREAD_TICK;
+  if (price <= 0) return undefined;
+
+  return { symbol, side: leg.side, price: roundToSpreadTick(price), quantity: spreads * leg.ratio };
+};
+
+export const roundToSpreadTick = (price: number): number => {
+  return Number((Math.round(price / SPREAD_TICK) * SPREAD_TICK).toFixed(8));
+};
+
+const flipSide = (side: OrderSide): OrderSide => side === 'BUY' ? 'SELL' : 'BUY';
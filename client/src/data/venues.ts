@@ -0,0 +1,84 @@
+import { Venue } from '@/types/market';
+import { getInstrumentBySymbol } from './instruments';
+
+// Routing instruction that lets the smart order router pick the venues
+export const SMART_ROUTE = 'SMART';
+
+// Lit equity venues. Latencies are round trips, scaled up so that quotes
+// visibly move while a routed order is in flight.
+export const venues: Venue[] = [
+  {
+    id: 'NYSE',
+    name: 'New York Stock Exchange',
+    makerFee: -0.0020,
+    takerFee: 0.0030,
+    latencyMs: 40,
+    liquidityShare: 0.30,
+  },
+  {
+    id: 'NASDAQ',
+    name: 'Nasdaq Stock Market',
+    makerFee: -0.0029,
+    takerFee: 0.0030,
+    latencyMs: 25,
+    liquidityShare: 0.35,
+  },
+  {
+    // Inverted venue: takers are paid and makers pay, so resting orders queue longer here
+    id: 'BYX',
+    name: 'Cboe BYX Exchange',
+    makerFee: 0.0018,
+    takerFee: -0.0005,
+    latencyMs: 60,
+    liquidityShare: 0.20,
+  },
+  {
+    // The speed bump delays every order on the way in
+    id: 'IEX',
+    name: 'Investors Exchange',
+    makerFee: 0.0009,
+    takerFee: 0.0009,
+    latencyMs: 120,
+    liquidityShare: 0.15,
+  },
+];
+
+// Crosses equity orders at the lit midpoint; nothing it holds is ever displayed
+export const DARK_POOL: Venue = {
+  id: 'DARK',
+  name: 'Midpoint Dark Pool',
+  makerFee: 0.0010,
+  takerFee: 0.0010,
+  latencyMs: 30,
+  liquidityShare: 0,
+  dark: true,
+};
+
+export const getVenueById = (id: string) => {
+  return [...venues, DARK_POOL].find(venue => venue.id === id);
+};
+
+export const isDarkPoolEligible = (symbol: string): boolean => {
+  return getInstrumentBySymbol(symbol)?.assetClass === 'EQUITY';
+};
+
+// Equities trade on every lit venue; everything else only on its listing exchange
+export const getVenuesForSymbol = (symbol: string): Venue[] => {
+  const instrument = getInstrumentBySymbol(symbol);
+  if (instrument?.assetClass === 'EQUITY') return venues;
+
+  const listing = instrument?.exchange || venues[0].id;
+  return [getVenueById(listing) || {
+    id: listing,
+    name: listing,
+    makerFee: 0,
+    takerFee: 0,
+    latencyMs: 0,
+    liquidityShare: 1,
+  }];
+};
+
+export const getPrimaryVenueId = (symbol: string): string => {
+  const instrument = getInstrumentBySymbol(symbol);
+  return instrument?.exchange || venues[0].id;
+};
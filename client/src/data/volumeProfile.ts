@@ -0,0 +1,27 @@
+// Mean volume the simulated feed adds to a symbol each second (100-1100 shares) before the intraday multiplier
+export const AVERAGE_VOLUME_PER_SECOND = 600;
+
+// U-shaped volume pattern: higher at market open (9:30) and close (16:00)
+export const getVolumeMultiplier = (hour: number): number => {
+  if (hour >= 9 && hour <= 10) return 2.0; // Market open
+  if (hour >= 15 && hour <= 16) return 1.8; // Market close
+  if (hour >= 11 && hour <= 14) return 0.8; // Midday lull
+  return 1.0; // Normal hours
+};
+
+// Volume a symbol historically trades between two times, walked an hour of the profile at a time
+export const getExpectedVolume = (startTime: number, endTime: number): number => {
+  let volume = 0;
+  let time = startTime;
+
+  while (time < endTime) {
+    const date = new Date(time);
+    const nextHour = new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours() + 1).getTime();
+    const until = Math.min(nextHour, endTime);
+
+    volume += (until - time) / 1000 * AVERAGE_VOLUME_PER_SECOND * getVolumeMultiplier(date.getHours());
+    time = until;
+  }
+
+  return volume;
+};
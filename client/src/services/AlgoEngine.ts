@@ -0,0 +1,419 @@
+import { useOrderStore } from '@/stores/useOrderStore';
+import { useMarketDataStore } from '@/stores/useMarketDataStore';
+import { instruments } from '@/data/instruments';
+import { getExpectedVolume } from '@/data/volumeProfile';
+import { AlgoBenchmark, AlgoParams, AlgoReport, Order, OrderType, TimeInForce } from '@/types/trading';
+import { Tick } from '@/types/market';
+import { calculateTWAP, calculateVWAP } from '@/utils/calculations';
+import { orderService } from './OrderService';
+import { ALGO_ORDER_TYPES } from './OrderValidator';
+
+interface PriceSample {
+  price: number;
+  timestamp: number;
+}
+
+interface VolumeSample {
+  price: number;
+  quantity: number;
+}
+
+// A parent order being worked: when each slice goes out and what the market has done since it started
+interface ActiveAlgo {
+  parentId: string;
+  symbol: string;
+  sliceTimes: number[]; // empty for POV, which trades off the tape instead of a schedule
+  nextSlice: number;
+  arrivalPrice: number;
+  startVolume: number; // the feed's cumulative volume when the algo started
+  lastVolume: number; // and at the latest sample
+  tapeVolume: number; // shares printed since the algo started, its own fills included
+  priceSamples: PriceSample[]; // market prices over the algo's interval, for a TWAP benchmark
+  volumeSamples: VolumeSample[]; // market volume traded at each sampled price, for a VWAP benchmark
+}
+
+interface ChildTerms {
+  orderType: OrderType;
+  price?: number;
+  timeInForce: TimeInForce;
+}
+
+const ALGO_CHECK_INTERVAL_MS = 1000;
+
+// POV lets its shortfall build to this size before sending a child, so it does not chase every print
+const POV_MIN_CHILD_SHARES = 100;
+
+// A MEDIUM urgency POV crosses the spread once it has done less than this share of its target
+const POV_CATCH_UP_FRACTION = 0.5;
+
+// How far full risk aversion bends the shortfall trajectory towards the start (curvature x duration)
+const MAX_TRAJECTORY_CURVATURE = 5;
+
+export class AlgoEngine {
+  private activeAlgos: Map<string, ActiveAlgo> = new Map(); // parent order id -> schedule
+  private algoInterval: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  start(): void {
+    if (this.algoInterval) return;
+
+    ALGO_ORDER_TYPES.forEach(orderType => orderService.registerAlgo(orderType, order => this.startAlgo(order)));
+
+    // Algos that were working when the page closed pick up from their current slice
+    useOrderStore.getState().orders
+      .filter(order => ALGO_ORDER_TYPES.includes(order.orderType) && order.algoParams && this.isWorking(order))
+      .forEach(order => this.startAlgo(order));
+
+    this.unsubscribe = useMarketDataStore.subscribe(
+      state => state.ticks,
+      (ticks, previous) => this.onTicks(ticks, previous)
+    );
+    this.algoInterval = setInterval(() => {
+      this.runSchedules();
+    }, ALGO_CHECK_INTERVAL_MS);
+
+    console.log('Algo engine started');
+  }
+
+  stop(): void {
+    if (this.algoInterval) {
+      clearInterval(this.algoInterval);
+      this.algoInterval = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  // Slices go out evenly spaced from start to end; only their sizes differ between strategies
+  private startAlgo(order: Order): void {
+    const { startTime, endTime, sliceCount = 0 } = order.algoParams!;
+    const interval = (endTime - startTime) / Math.max(sliceCount, 1);
+    const volume = this.getMarketVolume(order.symbol);
+
+    const algo: ActiveAlgo = {
+      parentId: order.id,
+      symbol: order.symbol,
+      sliceTimes: order.orderType === 'POV' ? [] : Array.from({ length: sliceCount }, (_, index) => startTime + index * interval),
+      nextSlice: 0,
+      // A resumed algo keeps the arrival price it reported before the reload
+      arrivalPrice: order.algoReport?.arrivalPrice ?? this.getMidPrice(order.symbol),
+      startVolume: volume,
+      lastVolume: volume,
+      tapeVolume: 0,
+      priceSamples: [],
+      volumeSamples: [],
+    };
+
+    this.activeAlgos.set(order.id, algo);
+    this.runSchedule(algo, Date.now());
+  }
+
+  private runSchedules(): void {
+    const now = Date.now();
+    this.activeAlgos.forEach(algo => this.runSchedule(algo, now));
+  }
+
+  private runSchedule(algo: ActiveAlgo, now: number): void {
+    const parent = useOrderStore.getState().getOrder(algo.parentId);
+    if (!parent) {
+      this.activeAlgos.delete(algo.parentId);
+      return;
+    }
+
+    const { startTime, endTime } = parent.algoParams!;
+    if (now >= startTime) {
+      this.sampleMarket(algo, parent.symbol, now);
+    }
+
+    if (!this.isWorking(parent) || now >= endTime) {
+      this.finish(algo, parent, now);
+      return;
+    }
+
+    const progress = this.buildReport(algo, parent, now);
+    if (progress) {
+      useOrderStore.getState().updateOrder(parent.id, { algoReport: progress });
+    }
+
+    // Only the latest slice that is due goes out; after a pause it catches up to that slice's target
+    let due = -1;
+    algo.sliceTimes.forEach((sliceTime, index) => {
+      if (sliceTime <= now) due = index;
+    });
+    if (due < algo.nextSlice) return;
+
+    algo.nextSlice = due + 1;
+    this.sendSlice(algo, parent, due);
+  }
+
+  private onTicks(ticks: Map<string, Tick[]>, previous: Map<string, Tick[]>): void {
+    const { getOrder } = useOrderStore.getState();
+
+    this.activeAlgos.forEach(algo => {
+      const parent = getOrder(algo.parentId);
+      if (!parent || !this.isWorking(parent)) return;
+
+      const prints = this.getNewTicks(ticks.get(algo.symbol) || [], previous.get(algo.symbol) || [])
+        .filter(tick => tick.timestamp >= parent.algoParams!.startTime);
+      if (prints.length === 0) return;
+
+      algo.tapeVolume += prints.reduce((sum, tick) => sum + tick.size, 0);
+
+      if (parent.orderType === 'POV') {
+        this.workPov(algo, parent);
+      } else if (parent.orderType === 'IMPLEMENTATION_SHORTFALL') {
+        this.takeInTheMoney(algo, parent, prints[prints.length - 1]);
+      }
+    });
+  }
+
+  // The store appends prints one at a time, so whatever follows the last print seen before is new
+  private getNewTicks(current: Tick[], previous: Tick[]): Tick[] {
+    if (current === previous) return [];
+
+    const lastSeen = previous[previous.length - 1];
+    return current.slice(lastSeen ? current.lastIndexOf(lastSeen) + 1 : 0);
+  }
+
+  private sendSlice(algo: ActiveAlgo, parent: Order, index: number): void {
+    // Whatever the previous slice left unfilled is pulled and rolled into this one
+    this.cancelWorkingChildren(parent, 'Replaced by next slice');
+
+    const updated = useOrderStore.getState().getOrder(parent.id)!;
+    const target = Math.min(this.getSliceTarget(algo, updated, index), this.getParticipationLimit(algo, updated, index));
+    const quantity = this.roundToLot(target - updated.filledQuantity, this.getLotSize(parent.symbol));
+    if (quantity <= 0) return;
+
+    const terms = this.getChildTerms(updated, index === algo.sliceTimes.length - 1);
+    if (!terms) {
+      console.log(`Algo ${parent.id}: no market to price slice ${index + 1}, waiting for the next one`);
+      return;
+    }
+
+    orderService.submitChildOrder(parent.id, { quantity, ...terms });
+    console.log(`Algo ${parent.id}: slice ${index + 1}/${algo.sliceTimes.length} ${quantity} ${terms.orderType}${terms.price ? ` @ ${terms.price}` : ''}`);
+  }
+
+  // Cumulative quantity that should be done once the slice has worked. TWAP splits the order evenly;
+  // VWAP follows the historical volume profile, taking the volume already traded as fact so that a busier
+  // market than expected pulls the schedule forward and a quieter one holds it back. Implementation
+  // shortfall follows its risk-averse trajectory.
+  private getSliceTarget(algo: ActiveAlgo, parent: Order, index: number): number {
+    const sliceCount = algo.sliceTimes.length;
+    if (index === sliceCount - 1) return parent.quantity;
+
+    const lotSize = this.getLotSize(parent.symbol);
+    if (parent.orderType === 'IMPLEMENTATION_SHORTFALL') {
+      return this.roundToLot(parent.quantity * this.getTrajectoryFraction(parent.algoParams!, algo.sliceTimes[index + 1]), lotSize);
+    }
+    if (parent.orderType !== 'VWAP') {
+      return this.roundToLot(parent.quantity * (index + 1) / sliceCount, lotSize);
+    }
+
+    const traded = algo.lastVolume - algo.startVolume;
+    const sliceStart = algo.sliceTimes[index];
+    const expectedSlice = getExpectedVolume(sliceStart, algo.sliceTimes[index + 1]);
+    const expectedRemaining = getExpectedVolume(sliceStart, parent.algoParams!.endTime);
+    return this.roundToLot(parent.quantity * (traded + expectedSlice) / (traded + expectedRemaining), lotSize);
+  }
+
+  // Almgren-Chriss: the share still to trade decays as sinh(k(T - t)) / sinh(kT). Higher risk aversion
+  // raises k, trading more early to cut exposure to the price drifting from arrival; at zero it is a straight line.
+  private getTrajectoryFraction(params: AlgoParams, time: number): number {
+    const { startTime, endTime, riskAversion = 0 } = params;
+    const elapsed = Math.min(1, Math.max(0, (time - startTime) / (endTime - startTime)));
+    const curvature = riskAversion * MAX_TRAJECTORY_CURVATURE;
+
+    if (curvature === 0) return elapsed;
+    return 1 - Math.sinh(curvature * (1 - elapsed)) / Math.sinh(curvature);
+  }
+
+  // Most the algo may have done by the end of the slice: its share of the volume traded so far plus what the slice should see
+  private getParticipationLimit(algo: ActiveAlgo, parent: Order, index: number): number {
+    const { maxParticipationRate, endTime } = parent.algoParams!;
+    if (!maxParticipationRate) return Infinity;
+
+    const sliceEnd = index + 1 < algo.sliceTimes.length ? algo.sliceTimes[index + 1] : endTime;
+    const volume = algo.lastVolume - algo.startVolume + getExpectedVolume(algo.sliceTimes[index], sliceEnd);
+    return Math.floor(volume * maxParticipationRate);
+  }
+
+  // Tracks a share of the tape. The algo's own fills print too, so the target is set against everyone else's volume.
+  private workPov(algo: ActiveAlgo, parent: Order): void {
+    const { targetParticipationRate = 0, urgency = 'MEDIUM' } = parent.algoParams!;
+    const lotSize = this.getLotSize(parent.symbol);
+
+    const othersVolume = Math.max(0, algo.tapeVolume - parent.filledQuantity);
+    const target = Math.min(parent.quantity, this.roundToLot(othersVolume * targetParticipationRate / (1 - targetParticipationRate), lotSize));
+    const shortfall = target - parent.filledQuantity;
+    const unworked = shortfall - this.getWorkingQuantity(parent);
+    if (unworked < Math.min(POV_MIN_CHILD_SHARES, parent.quantity - parent.filledQuantity)) return;
+
+    // Higher urgency gives up the spread sooner to stay on target
+    const cross = urgency === 'HIGH' || (urgency === 'MEDIUM' && parent.filledQuantity < target * POV_CATCH_UP_FRACTION);
+    const terms = this.getQuoteTerms(parent, cross);
+    if (!terms) return;
+
+    this.cancelWorkingChildren(parent, 'Resized to participation target');
+    orderService.submitChildOrder(parent.id, { quantity: shortfall, ...terms });
+    console.log(`Algo ${parent.id}: POV ${shortfall} ${cross ? 'crossing' : 'passive'} @ ${terms.price} (${parent.filledQuantity}/${target})`);
+  }
+
+  // Between slices, a print at or better than arrival is a chance to catch up with the trajectory at no cost
+  // against the benchmark, so the shortfall is taken from the far touch as long as that is no worse than arrival
+  private takeInTheMoney(algo: ActiveAlgo, parent: Order, print: Tick): void {
+    const isBuy = parent.side === 'BUY';
+    const current = algo.nextSlice - 1;
+    if (current < 0 || algo.arrivalPrice <= 0) return;
+    if (isBuy ? print.price > algo.arrivalPrice : print.price < algo.arrivalPrice) return;
+
+    const lotSize = this.getLotSize(parent.symbol);
+    const target = Math.min(
+      this.roundToLot(parent.quantity * this.getTrajectoryFraction(parent.algoParams!, Date.now()), lotSize),
+      this.getParticipationLimit(algo, parent, current)
+    );
+    const behind = this.roundToLot(target - parent.filledQuantity - this.getWorkingQuantity(parent), lotSize);
+    if (behind <= 0) return;
+
+    const terms = this.getQuoteTerms(parent, true);
+    if (!terms || terms.price === undefined) return;
+    if (isBuy ? terms.price > algo.arrivalPrice : terms.price < algo.arrivalPrice) return;
+
+    orderService.submitChildOrder(parent.id, { quantity: behind, ...terms });
+    console.log(`Algo ${parent.id}: in the money at ${print.price} vs arrival ${algo.arrivalPrice}, taking ${behind} @ ${terms.price}`);
+  }
+
+  // Limit slices wait passively at the near touch, except the last, which crosses the spread to finish on time.
+  // Market slices take liquidity straight away. The parent's limit price caps every child.
+  private getChildTerms(parent: Order, isLastSlice: boolean): ChildTerms | undefined {
+    if (parent.algoParams!.childOrderType === 'MARKET') {
+      return parent.price === undefined
+        ? { orderType: 'MARKET', timeInForce: 'IOC' }
+        : { orderType: 'LIMIT', price: parent.price, timeInForce: 'IOC' };
+    }
+
+    return this.getQuoteTerms(parent, isLastSlice);
+  }
+
+  // A passive child joins the near touch for the day; a crossing one takes the far touch and cancels what it cannot fill
+  private getQuoteTerms(parent: Order, cross: boolean): ChildTerms | undefined {
+    const isBuy = parent.side === 'BUY';
+    const capped = (price: number) => parent.price === undefined
+      ? price
+      : isBuy ? Math.min(price, parent.price) : Math.max(price, parent.price);
+
+    const quote = this.getQuote(parent.symbol);
+    if (!quote) return undefined;
+
+    if (cross) {
+      return { orderType: 'LIMIT', price: capped(isBuy ? quote.ask : quote.bid), timeInForce: 'IOC' };
+    }
+    return { orderType: 'LIMIT', price: capped(isBuy ? quote.bid : quote.ask), timeInForce: 'DAY' };
+  }
+
+  // The consolidated quote is what the venues will actually trade against; the feed quote is the fallback
+  private getQuote(symbol: string): { bid: number; ask: number } | undefined {
+    const { getNbbo, getMarketData } = useMarketDataStore.getState();
+    const nbbo = getNbbo(symbol);
+    const quote = nbbo && nbbo.bid > 0 && nbbo.ask > 0 ? nbbo : getMarketData(symbol);
+    if (!quote || quote.bid <= 0 || quote.ask <= 0) return undefined;
+    return quote;
+  }
+
+  private getMidPrice(symbol: string): number {
+    const quote = this.getQuote(symbol);
+    if (!quote) return useMarketDataStore.getState().getMarketData(symbol)?.price || 0;
+    return Math.round((quote.bid + quote.ask) / 2 * 10000) / 10000;
+  }
+
+  private finish(algo: ActiveAlgo, parent: Order, now: number): void {
+    this.activeAlgos.delete(algo.parentId);
+
+    // Cancelling the parent pulls its working children with it
+    if (this.isWorking(parent)) {
+      const unfilled = parent.quantity - parent.filledQuantity;
+      orderService.cancelOrder(parent.id, `${parent.orderType} window ended with ${unfilled} unfilled`);
+    }
+
+    const { getOrder, updateOrder } = useOrderStore.getState();
+    const report = this.buildReport(algo, getOrder(parent.id)!, now);
+    if (!report) return;
+
+    updateOrder(parent.id, { algoReport: { ...report, completedAt: now } });
+    console.log(`Algo ${parent.id} done: ${report.filledQuantity} @ ${report.achievedPrice} vs ${report.benchmark} ${report.benchmarkPrice} (${report.slippageBps} bps), arrival ${report.arrivalPrice}`);
+  }
+
+  // The benchmark covers the interval the algo has actually run, which is shorter if it filled early.
+  // POV and implementation shortfall are judged against the price when they started.
+  private buildReport(algo: ActiveAlgo, parent: Order, now: number): AlgoReport | undefined {
+    if (parent.filledQuantity === 0) return undefined;
+
+    const benchmark: AlgoBenchmark = parent.orderType === 'TWAP' || parent.orderType === 'VWAP' ? parent.orderType : 'ARRIVAL';
+    const benchmarkPrice = benchmark === 'VWAP'
+      ? calculateVWAP(algo.volumeSamples)
+      : benchmark === 'TWAP'
+        ? calculateTWAP(algo.priceSamples, parent.algoParams!.startTime, now)
+        : algo.arrivalPrice;
+    if (benchmarkPrice <= 0) return undefined;
+
+    const direction = parent.side === 'BUY' ? 1 : -1;
+    return {
+      benchmark,
+      benchmarkPrice: Math.round(benchmarkPrice * 10000) / 10000,
+      achievedPrice: parent.avgFillPrice,
+      slippageBps: Math.round(direction * (parent.avgFillPrice - benchmarkPrice) / benchmarkPrice * 100000) / 10,
+      filledQuantity: parent.filledQuantity,
+      // POV measures itself against the tape it tracks; the others against the feed's volume
+      marketVolume: parent.orderType === 'POV' ? algo.tapeVolume : algo.lastVolume - algo.startVolume,
+      arrivalPrice: algo.arrivalPrice,
+    };
+  }
+
+  private getWorkingChildren(parent: Order): Order[] {
+    const { getOrder } = useOrderStore.getState();
+
+    return (parent.childOrderIds || [])
+      .map(id => getOrder(id))
+      .filter((child): child is Order => child !== undefined && this.isWorking(child));
+  }
+
+  private getWorkingQuantity(parent: Order): number {
+    return this.getWorkingChildren(parent).reduce((sum, child) => sum + child.quantity - child.filledQuantity, 0);
+  }
+
+  private cancelWorkingChildren(parent: Order, reason: string): void {
+    this.getWorkingChildren(parent).forEach(child => orderService.cancelOrder(child.id, reason));
+  }
+
+  private sampleMarket(algo: ActiveAlgo, symbol: string, now: number): void {
+    const marketData = useMarketDataStore.getState().getMarketData(symbol);
+    if (!marketData || marketData.price <= 0) return;
+
+    algo.priceSamples.push({ price: marketData.price, timestamp: now });
+
+    // Volume traded since the previous sample is credited to the current price
+    const traded = marketData.volume - algo.lastVolume;
+    if (traded > 0) {
+      algo.volumeSamples.push({ price: marketData.price, quantity: traded });
+    }
+    algo.lastVolume = marketData.volume;
+  }
+
+  private getMarketVolume(symbol: string): number {
+    return useMarketDataStore.getState().getMarketData(symbol)?.volume || 0;
+  }
+
+  private getLotSize(symbol: string): number {
+    return instruments.find(instrument => instrument.symbol === symbol)?.lotSize || 1;
+  }
+
+  private roundToLot(quantity: number, lotSize: number): number {
+    return Math.floor(quantity / lotSize + 1e-9) * lotSize;
+  }
+
+  private isWorking(order: Order): boolean {
+    return order.status === 'NEW' || order.status === 'PARTIALLY_FILLED';
+  }
+}
+
+export const algoEngine = new AlgoEngine();
@@ -200,6 +200,11 @@ export class BacktestingEngine {
     this.indicators.set(name, indicator);
   }
 
+  // One indicator over the given bars; empty when the indicator is unknown
+  calculateIndicator(name: string, data: HistoricalBar[], params?: Record<string, number>): number[] {
+    return this.indicators.get(name)?.calculate(data, params) || [];
+  }
+
   private calculateAllIndicators(
     data: HistoricalBar[],
     indicatorsToCalculate: Array<{ name: string; params?: Record<string, number> }>
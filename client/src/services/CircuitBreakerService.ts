@@ -0,0 +1,204 @@
+import { useMarketDataStore } from '@/stores/useMarketDataStore';
+import { instruments } from '@/data/instruments';
+import { HaltReason, Instrument, MarketData, TradingHalt } from '@/types/market';
+import { getNextSessionClose, getSessionPhase } from '@/utils/tradingHours';
+import { tradingSessionService } from './TradingSessionService';
+
+export interface PriceBand {
+  referencePrice: number;
+  lower: number;
+  upper: number;
+}
+
+interface PricePoint {
+  price: number;
+  timestamp: number;
+}
+
+// The LULD reference price is the average trade price over this window
+const REFERENCE_WINDOW_MS = 5 * 60 * 1000;
+const LULD_HALT_MS = 5 * 60 * 1000;
+const MWCB_HALT_MS = 15 * 60 * 1000;
+const HALT_CHECK_INTERVAL_MS = 1000;
+
+const MARKET_INDEX = 'SPX';
+
+// Declines in the index from the previous close, most severe first
+const MWCB_LEVELS: { reason: HaltReason; decline: number }[] = [
+  { reason: 'MWCB_LEVEL_3', decline: 0.20 },
+  { reason: 'MWCB_LEVEL_2', decline: 0.13 },
+  { reason: 'MWCB_LEVEL_1', decline: 0.07 },
+];
+
+export class CircuitBreakerService {
+  private priceHistory: Map<string, PricePoint[]> = new Map(); // symbol -> recent prices for the LULD reference
+  private halts: Map<string, TradingHalt> = new Map();
+  private triggeredLevels: Set<HaltReason> = new Set();
+  private tradingDay = new Date().toDateString();
+  private haltInterval: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  start(): void {
+    if (this.haltInterval) return;
+
+    this.unsubscribe = useMarketDataStore.subscribe(
+      state => state.marketData,
+      (marketData, previous) => this.onMarketData(marketData, previous)
+    );
+    this.haltInterval = setInterval(() => {
+      this.resumeExpiredHalts();
+    }, HALT_CHECK_INTERVAL_MS);
+
+    console.log('Circuit breaker service started');
+  }
+
+  stop(): void {
+    if (this.haltInterval) {
+      clearInterval(this.haltInterval);
+      this.haltInterval = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  // Current limit-up/limit-down band, or undefined for symbols without one
+  getPriceBand(symbol: string): PriceBand | undefined {
+    const history = this.priceHistory.get(symbol);
+    if (!history || history.length === 0) return undefined;
+
+    const referencePrice = history.reduce((sum, point) => sum + point.price, 0) / history.length;
+    const width = this.getBandWidth(referencePrice);
+
+    return {
+      referencePrice,
+      lower: referencePrice - width,
+      upper: referencePrice + width,
+    };
+  }
+
+  // Halts the symbol until the given time; an existing halt is only ever extended
+  haltSymbol(symbol: string, reason: HaltReason, description: string, resumeAt: number): void {
+    const instrument = instruments.find(instrument => instrument.symbol === symbol);
+    if (!instrument || !this.isTradingSession(instrument)) return;
+
+    const existing = this.halts.get(symbol);
+    if (existing && existing.resumeAt >= resumeAt) return;
+
+    const halt: TradingHalt = {
+      symbol,
+      reason,
+      description,
+      haltedAt: existing?.haltedAt ?? Date.now(),
+      resumeAt,
+    };
+
+    this.halts.set(symbol, halt);
+    useMarketDataStore.getState().updateHalt(symbol, halt);
+    tradingSessionService.halt(symbol);
+
+    console.log(`Circuit breaker ${reason} on ${symbol}: ${description}`);
+  }
+
+  resumeSymbol(symbol: string): void {
+    if (!this.halts.delete(symbol)) return;
+
+    useMarketDataStore.getState().clearHalt(symbol);
+    tradingSessionService.resume(symbol);
+
+    // The band is re-centred on wherever the reopening auction left the price
+    const marketData = useMarketDataStore.getState().getMarketData(symbol);
+    this.priceHistory.set(symbol, marketData ? [{ price: marketData.price, timestamp: Date.now() }] : []);
+  }
+
+  getHalts(): TradingHalt[] {
+    return Array.from(this.halts.values());
+  }
+
+  private onMarketData(marketData: Map<string, MarketData>, previous: Map<string, MarketData>): void {
+    marketData.forEach((data, symbol) => {
+      if (data === previous.get(symbol)) return;
+
+      if (symbol === MARKET_INDEX) {
+        this.checkMarketWide(data);
+      }
+      this.checkPriceBand(symbol, data);
+    });
+  }
+
+  private checkPriceBand(symbol: string, data: MarketData): void {
+    const instrument = instruments.find(instrument => instrument.symbol === symbol);
+    if (!instrument || instrument.assetClass !== 'EQUITY' || this.halts.has(symbol)) return;
+
+    const now = Date.now();
+    const band = this.getPriceBand(symbol);
+    const history = (this.priceHistory.get(symbol) || []).filter(point => now - point.timestamp < REFERENCE_WINDOW_MS);
+    this.priceHistory.set(symbol, [...history, { price: data.price, timestamp: now }]);
+
+    if (!band || !this.isTradingSession(instrument)) return;
+
+    if (data.price < band.lower || data.price > band.upper) {
+      const direction = data.price > band.upper ? 'Limit up' : 'Limit down';
+      this.haltSymbol(
+        symbol,
+        'LULD',
+        `${direction}: ${data.price.toFixed(2)} outside ${band.lower.toFixed(2)} - ${band.upper.toFixed(2)}`,
+        now + LULD_HALT_MS
+      );
+    }
+  }
+
+  private checkMarketWide(data: MarketData): void {
+    const today = new Date().toDateString();
+    if (today !== this.tradingDay) {
+      this.tradingDay = today;
+      this.triggeredLevels.clear();
+    }
+
+    if (!data.close) return;
+    const decline = (data.close - data.price) / data.close;
+
+    // Each level halts the market at most once a day
+    const level = MWCB_LEVELS.find(level => decline >= level.decline);
+    if (!level || this.triggeredLevels.has(level.reason)) return;
+
+    MWCB_LEVELS.filter(other => other.decline <= level.decline)
+      .forEach(other => this.triggeredLevels.add(other.reason));
+
+    const description = `${MARKET_INDEX} down ${(decline * 100).toFixed(1)}% from previous close`;
+    const now = Date.now();
+
+    instruments
+      .filter(instrument => instrument.assetClass === 'EQUITY')
+      .forEach(instrument => {
+        // A level 3 decline closes the market for the rest of the day
+        const resumeAt = level.reason === 'MWCB_LEVEL_3'
+          ? getNextSessionClose(instrument.tradingHours, now)
+          : now + MWCB_HALT_MS;
+        this.haltSymbol(instrument.symbol, level.reason, description, resumeAt);
+      });
+  }
+
+  private resumeExpiredHalts(): void {
+    const now = Date.now();
+    this.halts.forEach(halt => {
+      if (halt.resumeAt <= now) {
+        this.resumeSymbol(halt.symbol);
+      }
+    });
+  }
+
+  // Tier 1 LULD percentages, widening for low-priced stocks
+  private getBandWidth(referencePrice: number): number {
+    if (referencePrice > 3) return referencePrice * 0.05;
+    if (referencePrice >= 0.75) return referencePrice * 0.20;
+    return Math.min(0.15, referencePrice * 0.75);
+  }
+
+  // Halts only apply while the venue is open; there is nothing to stop before the open or after the close
+  private isTradingSession(instrument: Instrument): boolean {
+    const phase = getSessionPhase(instrument.tradingHours, Date.now());
+    return phase !== 'PRE_OPEN' && phase !== 'POST_CLOSE';
+  }
+}
+
+export const circuitBreakerService = new CircuitBreakerService();
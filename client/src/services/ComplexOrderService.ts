@@ -1,252 +1,248 @@
-import { Order, BracketOrder, OCOOrder, OrderLeg, ContingentOrder, OrderSide } from '@/types/trading';
+import { Order, BracketOrder, OCOOrder, OrderLeg, ContingentOrder, OrderSide, OrderType, TimeInForce } from '@/types/trading';
 import { useOrderStore } from '@/stores/useOrderStore';
-import { useMarketDataStore } from '@/stores/useMarketDataStore';
+import { normalizeSpread, getSpreadSymbol } from '@/data/spreads';
+import { getPrimaryVenueId } from '@/data/venues';
+import { orderService } from './OrderService';
+
+type ExitTerms = Pick<Order, 'orderType' | 'price' | 'stopPrice' | 'trailType' | 'trailAmount'>;
 
 export class ComplexOrderService {
-  private activeContingentOrders: Map<string, ContingentOrder[]> = new Map();
-  private ocoGroups: Map<string, string[]> = new Map();
-  private monitoringInterval: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
 
   constructor() {
-    this.startMonitoring();
+    this.unsubscribe = orderService.onFill((order, quantity) => this.onFill(order, quantity));
   }
 
-  createBracketOrder(bracketOrder: BracketOrder): { parentId: string; childIds: string[] } {
-    const orderStore = useOrderStore.getState();
-
-    const parentOrderData = {
-      ...bracketOrder.entryOrder,
-      clientOrderId: `BRACKET_${Date.now()}`,
-      gatewayType: 'FIX' as const,
-    };
-
-    const parentId = orderStore.createOrder(parentOrderData as any);
-
-    const childOrders: ContingentOrder[] = [
-      bracketOrder.takeProfitOrder,
-      bracketOrder.stopLossOrder,
-    ];
-
-    this.activeContingentOrders.set(parentId, childOrders);
-
-    const childIds: string[] = [];
-
-    orderStore.updateOrder(parentId, {
-      contingentOrders: childOrders,
-      childOrderIds: childIds,
+  // The entry goes out on its own. Its take-profit and stop-loss follow once part of it has filled,
+  // as an OCO pair sized to the filled quantity, and grow with each further entry fill.
+  async createBracketOrder(bracketOrder: BracketOrder): Promise<{ parentId: string }> {
+    const { entryOrder, takeProfitOrder, stopLossOrder } = bracketOrder;
+
+    // Exits only go out once the entry fills, so terms they would be rejected on turn the whole bracket away now
+    const rejectReason = this.validateBracket(bracketOrder);
+    if (rejectReason) throw new Error(rejectReason);
+
+    const parentId = await orderService.submitOrder({
+      symbol: entryOrder.symbol!,
+      side: entryOrder.side!,
+      orderType: entryOrder.orderType!,
+      quantity: entryOrder.quantity!,
+      price: entryOrder.orderType === 'MARKET' ? undefined : entryOrder.price,
+      timeInForce: entryOrder.timeInForce || 'DAY',
+      gatewayType: entryOrder.gatewayType,
+      contingentOrders: [takeProfitOrder, stopLossOrder],
     });
 
-    console.log(`Bracket order created: Parent=${parentId}, Monitoring contingent orders`);
-
-    return { parentId, childIds };
+    return { parentId };
   }
 
-  createOCOOrder(ocoOrder: OCOOrder): { primaryId: string; secondaryId: string } {
-    const orderStore = useOrderStore.getState();
-
-    const primaryOrderData = {
-      ...ocoOrder.primaryOrder,
-      clientOrderId: `OCO_PRIMARY_${Date.now()}`,
-      gatewayType: 'FIX' as const,
-    };
-
-    const secondaryOrderData = {
-      ...ocoOrder.secondaryOrder,
-      clientOrderId: `OCO_SECONDARY_${Date.now()}`,
-      gatewayType: 'FIX' as const,
-    };
-
-    const primaryId = orderStore.createOrder(primaryOrderData as any);
-    const secondaryId = orderStore.createOrder(secondaryOrderData as any);
-
-    const groupId = `OCO_${Date.now()}`;
-    this.ocoGroups.set(groupId, [primaryId, secondaryId]);
+  // Returns the reason the bracket's exits could not be placed, or undefined when they can
+  validateBracket(bracketOrder: BracketOrder): string | undefined {
+    for (const contingent of [bracketOrder.takeProfitOrder, bracketOrder.stopLossOrder]) {
+      const terms = this.getExitTerms(contingent);
+      const label = contingent.type === 'TAKE_PROFIT' ? 'Take-profit' : 'Stop-loss';
 
-    orderStore.updateOrder(primaryId, {
-      childOrderIds: [secondaryId],
-    });
-
-    orderStore.updateOrder(secondaryId, {
-      parentOrderId: primaryId,
-    });
+      if (terms.orderType === 'LIMIT' && !(terms.price && terms.price > 0)) return `${label} price is required`;
+      if ((terms.orderType === 'STOP' || terms.orderType === 'STOP_LIMIT') && !(terms.stopPrice && terms.stopPrice > 0)) {
+        return `${label} trigger price is required`;
+      }
+      if (terms.orderType === 'STOP_LIMIT' && !(terms.price && terms.price > 0)) return `${label} limit price is required`;
+      if (terms.orderType === 'TRAILING_STOP') {
+        if (!terms.trailAmount || terms.trailAmount <= 0) return 'Trailing stop needs a trail amount greater than zero';
+        if (terms.trailType === 'PERCENTAGE' && terms.trailAmount >= 100) return 'Trail percentage must be below 100%';
+      }
+    }
+    return undefined;
+  }
 
-    console.log(`OCO order created: Primary=${primaryId}, Secondary=${secondaryId}`);
+  async createOCOOrder(ocoOrder: OCOOrder): Promise<{ primaryId: string; secondaryId: string }> {
+    const ocoGroupId = `OCO_${Date.now()}`;
+
+    const [primaryId, secondaryId] = await Promise.all(
+      [ocoOrder.primaryOrder, ocoOrder.secondaryOrder].map(order => orderService.submitOrder({
+        symbol: order.symbol!,
+        side: order.side!,
+        orderType: order.orderType!,
+        quantity: order.quantity!,
+        price: order.orderType === 'STOP' || order.orderType === 'MARKET' ? undefined : order.price,
+        stopPrice: order.orderType === 'STOP' || order.orderType === 'STOP_LIMIT' ? order.stopPrice : undefined,
+        timeInForce: order.timeInForce || 'DAY',
+        gatewayType: order.gatewayType,
+        ocoGroupId,
+      }))
+    );
 
     return { primaryId, secondaryId };
   }
 
-  createMultiLegOrder(
-    symbol: string,
+  // A spread is one order at a net price (negative for a credit) that trades all of its legs in ratio or none of them.
+  // Orders for the same legs share one book however they were entered.
+  async createMultiLegOrder(
     legs: OrderLeg[],
     side: OrderSide,
-    orderType: string = 'LIMIT'
-  ): { parentId: string; legIds: string[] } {
-    const orderStore = useOrderStore.getState();
-
-    const totalQuantity = legs.reduce((sum, leg) => sum + leg.quantity, 0);
-
-    const parentOrderData = {
-      clientOrderId: `MULTILEG_${Date.now()}`,
+    quantity: number,
+    netPrice: number,
+    timeInForce: TimeInForce = 'DAY'
+  ): Promise<{ orderId: string; symbol: string }> {
+    const spread = normalizeSpread(legs, side, netPrice);
+    const symbol = getSpreadSymbol(spread.legs);
+
+    const orderId = await orderService.submitOrder({
       symbol,
-      side,
-      orderType: 'MULTI_LEG' as const,
-      quantity: totalQuantity,
-      timeInForce: 'DAY' as const,
-      gatewayType: 'FIX' as const,
-      legs,
-    };
-
-    const parentId = orderStore.createOrder(parentOrderData as any);
-
-    const legIds = legs.map((leg, index) => {
-      const legOrderData = {
-        clientOrderId: `${parentId}_LEG_${index}`,
-        symbol: leg.symbol,
-        side: leg.side,
-        orderType: leg.orderType,
-        quantity: leg.quantity,
-        price: leg.price,
-        timeInForce: 'DAY' as const,
-        gatewayType: 'FIX' as const,
-        parentOrderId: parentId,
-      };
-
-      return orderStore.createOrder(legOrderData as any);
+      side: spread.side,
+      orderType: 'MULTI_LEG',
+      quantity,
+      price: spread.price,
+      timeInForce,
+      legs: spread.legs,
     });
 
-    orderStore.updateOrder(parentId, {
-      childOrderIds: legIds,
-    });
-
-    console.log(`Multi-leg order created: Parent=${parentId}, Legs=${legIds.join(', ')}`);
+    return { orderId, symbol };
+  }
 
-    return { parentId, legIds };
+  // Exit legs hang off their entry by bracketEntryId rather than as routed children, so their fills stay their own
+  getBracketExits(entryId: string): Order[] {
+    return useOrderStore.getState().orders.filter(order => order.bracketEntryId === entryId);
   }
 
-  private startMonitoring() {
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
+  private onFill(order: Order, quantity: number): void {
+    if (order.contingentOrders?.length) {
+      this.syncBracketExits(order);
+    }
+    if (order.ocoGroupId) {
+      this.reduceOcoSiblings(order, quantity);
     }
-
-    this.monitoringInterval = setInterval(() => {
-      this.monitorBracketOrders();
-      this.monitorOCOOrders();
-    }, 500);
   }
 
-  private monitorBracketOrders() {
-    const orderStore = useOrderStore.getState();
-    const marketDataStore = useMarketDataStore.getState();
-
-    this.activeContingentOrders.forEach((contingentOrders, parentOrderId) => {
-      const parentOrder = orderStore.getOrder(parentOrderId);
-
-      if (!parentOrder || parentOrder.status === 'CANCELLED' || parentOrder.status === 'REJECTED') {
-        this.activeContingentOrders.delete(parentOrderId);
-        return;
-      }
+  // Working exits always cover the open position: what the entry has filled less what the exits have closed
+  private syncBracketExits(entry: Order): void {
+    const exits = this.getBracketExits(entry.id);
+    const openQuantity = entry.filledQuantity - exits.reduce((sum, exit) => sum + exit.filledQuantity, 0);
+    if (openQuantity <= 0) return;
+
+    // A fresh pair goes out on the first fill, and again if an earlier pair already closed out
+    const working = exits.filter(exit => this.isWorking(exit));
+    if (working.length === 0) {
+      this.submitBracketExits(entry, openQuantity);
+      return;
+    }
 
-      if (parentOrder.status !== 'FILLED') {
-        return;
+    working.forEach(exit => {
+      const quantity = exit.filledQuantity + openQuantity;
+      if (quantity !== exit.quantity) {
+        this.resizeOrder(exit, quantity, `Bracket ${entry.id}: exit resized`);
       }
+    });
+  }
 
-      const marketData = marketDataStore.marketData.get(parentOrder.symbol);
-      if (!marketData) return;
-
-      const currentPrice = marketData.price;
-
-      contingentOrders.forEach((contingent) => {
-        let shouldTrigger = false;
-
-        if (contingent.type === 'TAKE_PROFIT') {
-          if (parentOrder.side === 'BUY') {
-            shouldTrigger = currentPrice >= contingent.triggerPrice;
-          } else {
-            shouldTrigger = currentPrice <= contingent.triggerPrice;
-          }
-        } else if (contingent.type === 'STOP_LOSS') {
-          if (parentOrder.side === 'BUY') {
-            shouldTrigger = currentPrice <= contingent.triggerPrice;
-          } else {
-            shouldTrigger = currentPrice >= contingent.triggerPrice;
-          }
-        } else if (contingent.type === 'TRAILING_STOP' && contingent.offsetPercent) {
-          const offset = (contingent.offsetPercent / 100) * parentOrder.avgFillPrice;
-          if (parentOrder.side === 'BUY') {
-            const trailPrice = currentPrice - offset;
-            shouldTrigger = currentPrice <= trailPrice;
-          } else {
-            const trailPrice = currentPrice + offset;
-            shouldTrigger = currentPrice >= trailPrice;
-          }
-        }
-
-        if (shouldTrigger) {
-          const exitSide: OrderSide = parentOrder.side === 'BUY' ? 'SELL' : 'BUY';
-
-          const exitOrderData = {
-            clientOrderId: `${parentOrderId}_EXIT_${contingent.type}`,
-            symbol: parentOrder.symbol,
-            side: exitSide,
-            orderType: contingent.orderType,
-            quantity: contingent.quantity,
-            price: contingent.price,
-            timeInForce: 'IOC' as const,
-            gatewayType: 'FIX' as const,
-            parentOrderId: parentOrderId,
-          };
-
-          const exitOrderId = orderStore.createOrder(exitOrderData as any);
-          console.log(`Contingent order triggered: ${contingent.type} for parent ${parentOrderId}, Exit order: ${exitOrderId}`);
-
-          this.activeContingentOrders.delete(parentOrderId);
-        }
+  private submitBracketExits(entry: Order, quantity: number): void {
+    const ocoGroupId = `OCO_${entry.id}_${Date.now()}`;
+    const exitSide: OrderSide = entry.side === 'BUY' ? 'SELL' : 'BUY';
+
+    // Exits protect the position until one of them completes, so they outlive the trading day. They rest on the
+    // listing venue rather than being routed, so they can be resized in place as the position changes.
+    entry.contingentOrders!.forEach(contingent => {
+      orderService.submitOrder({
+        symbol: entry.symbol,
+        side: exitSide,
+        quantity,
+        timeInForce: 'GTC',
+        gatewayType: entry.gatewayType,
+        venue: getPrimaryVenueId(entry.symbol),
+        traderId: entry.traderId,
+        bracketEntryId: entry.id,
+        ocoGroupId,
+        ...this.getExitTerms(contingent),
       });
     });
   }
 
-  private monitorOCOOrders() {
-    const orderStore = useOrderStore.getState();
-
-    this.ocoGroups.forEach((orderIds, groupId) => {
-      const orders = orderIds.map(id => orderStore.getOrder(id)).filter(Boolean) as Order[];
+  // Take-profits rest as limits. Stop-losses wait as stops and go to market when elected, or to a limit if priced.
+  // A trailing stop follows the market from the moment the exits go out.
+  private getExitTerms(contingent: ContingentOrder): ExitTerms {
+    if (contingent.type === 'TAKE_PROFIT') {
+      return { orderType: 'LIMIT', price: contingent.price ?? contingent.triggerPrice };
+    }
 
-      if (orders.length === 0) {
-        this.ocoGroups.delete(groupId);
-        return;
-      }
+    if (contingent.type === 'TRAILING_STOP') {
+      return contingent.trailType
+        ? { orderType: 'TRAILING_STOP', trailType: contingent.trailType, trailAmount: contingent.trailAmount }
+        : { orderType: 'TRAILING_STOP', trailType: 'PERCENTAGE', trailAmount: contingent.offsetPercent };
+    }
 
-      const filledOrder = orders.find(order => order.status === 'FILLED' || order.status === 'PARTIALLY_FILLED');
+    const orderType: OrderType = contingent.orderType === 'LIMIT' && contingent.price ? 'STOP_LIMIT' : 'STOP';
+    return { orderType, price: orderType === 'STOP_LIMIT' ? contingent.price : undefined, stopPrice: contingent.triggerPrice };
+  }
 
-      if (filledOrder) {
-        orderIds.forEach(orderId => {
-          if (orderId !== filledOrder.id) {
-            const orderToCancel = orderStore.getOrder(orderId);
-            if (orderToCancel && orderToCancel.status === 'NEW') {
-              orderStore.cancelOrder(orderId);
-              console.log(`OCO: Cancelled order ${orderId} because ${filledOrder.id} was filled`);
-            }
-          }
-        });
+  // One-cancels-other: a fill on one order takes the same quantity off the others, cancelling any left with nothing
+  private reduceOcoSiblings(order: Order, quantity: number): void {
+    useOrderStore.getState().orders
+      .filter(sibling => sibling.ocoGroupId === order.ocoGroupId && sibling.id !== order.id && this.isWorking(sibling))
+      .forEach(sibling => {
+        const reduced = sibling.quantity - quantity;
+        if (reduced <= sibling.filledQuantity) {
+          orderService.cancelOrder(sibling.id, `OCO: ${order.id} filled`);
+        } else {
+          this.resizeOrder(sibling, reduced, `OCO: ${order.id} filled`);
+        }
+      });
+  }
 
-        this.ocoGroups.delete(groupId);
-      }
+  // Amends the order to the new total quantity. An order that can't be amended where it works, such as one still
+  // being routed, is cancelled and sent again for the rest, keeping its bracket and OCO group.
+  private async resizeOrder(order: Order, quantity: number, reason: string): Promise<void> {
+    if (!await orderService.amendOrder(order.id, { quantity })) return;
+
+    const current = useOrderStore.getState().getOrder(order.id);
+    if (!current || !this.isWorking(current) || current.quantity === quantity) return;
+
+    const remaining = quantity - current.filledQuantity;
+    await orderService.cancelOrder(current.id, reason);
+    if (remaining <= 0) return;
+
+    orderService.submitOrder({
+      symbol: current.symbol,
+      side: current.side,
+      orderType: current.orderType,
+      quantity: remaining,
+      price: current.price,
+      stopPrice: current.stopPrice,
+      triggerType: current.triggerType,
+      trailType: current.trailType,
+      trailAmount: current.trailAmount,
+      timeInForce: current.timeInForce,
+      expireDate: current.expireDate,
+      gatewayType: current.gatewayType,
+      venue: current.venue,
+      traderId: current.traderId,
+      bracketEntryId: current.bracketEntryId,
+      ocoGroupId: current.ocoGroupId,
     });
   }
 
+  private isWorking(order: Order): boolean {
+    return order.status === 'NEW' || order.status === 'PARTIALLY_FILLED';
+  }
+
   stop() {
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = null;
-    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
   }
 
-  getActiveContingentOrders() {
-    return Array.from(this.activeContingentOrders.entries());
+  // Entries whose exits are still to come or still working
+  getActiveContingentOrders(): Array<[string, ContingentOrder[]]> {
+    return useOrderStore.getState().orders
+      .filter(order => order.contingentOrders?.length &&
+        (this.isWorking(order) || this.getBracketExits(order.id).some(exit => this.isWorking(exit))))
+      .map(order => [order.id, order.contingentOrders!]);
   }
 
-  getActiveOCOGroups() {
-    return Array.from(this.ocoGroups.entries());
+  getActiveOCOGroups(): Array<[string, string[]]> {
+    const groups = new Map<string, string[]>();
+    useOrderStore.getState().orders
+      .filter(order => order.ocoGroupId && this.isWorking(order))
+      .forEach(order => groups.set(order.ocoGroupId!, [...(groups.get(order.ocoGroupId!) || []), order.id]));
+    return Array.from(groups.entries());
   }
 }
 
@@ -0,0 +1,256 @@
+import { ConditionalOrder, OrderCondition } from '@/types/trading';
+import { useConditionalOrderStore } from '@/stores/useConditionalOrderStore';
+import { useMarketDataStore } from '@/stores/useMarketDataStore';
+import { instruments } from '@/data/instruments';
+import { orderService } from './OrderService';
+import { backtestingEngine } from './BacktestingEngine';
+
+type ConditionalOrderTerms = Pick<ConditionalOrder, 'conditions' | 'logic' | 'order'>;
+
+const CONDITION_CHECK_INTERVAL_MS = 1000;
+
+const DEFAULT_INDICATOR_PERIOD = 14;
+
+// Holds orders back until other instruments, indicators or the clock meet their conditions, then sends them
+// through the order service. Conditions are checked on every market data update and, for the clock, every second.
+export class ConditionalOrderService {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  start(): void {
+    if (this.checkInterval) return;
+
+    // Armed conditions carry on from where they were when the page closed
+    useConditionalOrderStore.getState().loadFromStorage();
+
+    this.unsubscribe = useMarketDataStore.subscribe(
+      state => state.marketData,
+      () => this.evaluateAll()
+    );
+    this.checkInterval = setInterval(() => this.evaluateAll(), CONDITION_CHECK_INTERVAL_MS);
+    this.evaluateAll();
+
+    console.log('Conditional order service started');
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  // Returns the reason the terms can't be armed, or undefined when they can
+  validate(terms: ConditionalOrderTerms): string | undefined {
+    const { conditions, order } = terms;
+    if (conditions.length === 0) return 'Add at least one condition';
+    if (!instruments.some(instrument => instrument.symbol === order.symbol)) return `Unknown instrument ${order.symbol}`;
+    if (order.quantity <= 0) return 'Quantity must be greater than zero';
+    if (order.orderType === 'LIMIT' && !order.price) return 'Limit price is required';
+
+    for (const condition of conditions) {
+      if (condition.type === 'TIME') {
+        if (!condition.time || !/^([01]\d|2[0-3]):[0-5]\d$/.test(condition.time)) return 'Time conditions need a time as HH:MM';
+        continue;
+      }
+      if (!instruments.some(instrument => instrument.symbol === condition.symbol)) return `Unknown instrument ${condition.symbol}`;
+      if (condition.type === 'PRICE' && condition.value <= 0) return 'Price conditions need a price above zero';
+      if (condition.type === 'INDICATOR' && !condition.indicator) return 'Indicator conditions need an indicator';
+      if (condition.indicatorPeriod !== undefined && (!Number.isInteger(condition.indicatorPeriod) || condition.indicatorPeriod < 2)) {
+        return 'Indicator period must be a whole number of at least 2';
+      }
+    }
+
+    return undefined;
+  }
+
+  createConditionalOrder(terms: ConditionalOrderTerms): string {
+    const id = useConditionalOrderStore.getState().addConditionalOrder({
+      ...terms,
+      conditions: this.armConditions(terms.conditions),
+      status: 'ARMED',
+      armedAt: Date.now(),
+    });
+
+    console.log(`Conditional order armed: ${id} - ${terms.order.side} ${terms.order.quantity} ${terms.order.symbol}`);
+    this.evaluate(id);
+    return id;
+  }
+
+  // Edits start the conditions over; an armed order re-arms against the new terms straight away
+  updateConditionalOrder(id: string, terms: ConditionalOrderTerms): boolean {
+    const { getConditionalOrder, updateConditionalOrder } = useConditionalOrderStore.getState();
+
+    const conditionalOrder = getConditionalOrder(id);
+    if (!conditionalOrder || !this.isPending(conditionalOrder)) return false;
+
+    const armed = conditionalOrder.status === 'ARMED';
+    updateConditionalOrder(id, {
+      ...terms,
+      conditions: armed ? this.armConditions(terms.conditions) : terms.conditions.map(condition => ({ ...condition, met: false, metAt: undefined })),
+      armedAt: armed ? Date.now() : conditionalOrder.armedAt,
+    });
+
+    console.log(`Conditional order updated: ${id}`);
+    this.evaluate(id);
+    return true;
+  }
+
+  arm(id: string): boolean {
+    const { getConditionalOrder, updateConditionalOrder } = useConditionalOrderStore.getState();
+
+    const conditionalOrder = getConditionalOrder(id);
+    if (!conditionalOrder || conditionalOrder.status !== 'DISARMED') return false;
+
+    updateConditionalOrder(id, {
+      status: 'ARMED',
+      conditions: this.armConditions(conditionalOrder.conditions),
+      armedAt: Date.now(),
+    });
+
+    console.log(`Conditional order armed: ${id}`);
+    this.evaluate(id);
+    return true;
+  }
+
+  disarm(id: string): boolean {
+    const { getConditionalOrder, updateConditionalOrder } = useConditionalOrderStore.getState();
+
+    const conditionalOrder = getConditionalOrder(id);
+    if (!conditionalOrder || conditionalOrder.status !== 'ARMED') return false;
+
+    updateConditionalOrder(id, { status: 'DISARMED' });
+    console.log(`Conditional order disarmed: ${id}`);
+    return true;
+  }
+
+  cancel(id: string): boolean {
+    const { getConditionalOrder, updateConditionalOrder } = useConditionalOrderStore.getState();
+
+    const conditionalOrder = getConditionalOrder(id);
+    if (!conditionalOrder || !this.isPending(conditionalOrder)) return false;
+
+    updateConditionalOrder(id, { status: 'CANCELLED' });
+    console.log(`Conditional order cancelled: ${id}`);
+    return true;
+  }
+
+  private isPending(conditionalOrder: ConditionalOrder): boolean {
+    return conditionalOrder.status === 'ARMED' || conditionalOrder.status === 'DISARMED';
+  }
+
+  // Arming starts every condition unmet; percent changes are measured from the price at this moment
+  private armConditions(conditions: OrderCondition[]): OrderCondition[] {
+    const { getMarketData } = useMarketDataStore.getState();
+
+    return conditions.map(condition => ({
+      ...condition,
+      met: false,
+      metAt: undefined,
+      referencePrice: condition.type === 'PERCENT_CHANGE' && condition.symbol ? getMarketData(condition.symbol)?.price : undefined,
+    }));
+  }
+
+  private evaluateAll(): void {
+    useConditionalOrderStore.getState().conditionalOrders
+      .filter(conditionalOrder => conditionalOrder.status === 'ARMED')
+      .forEach(conditionalOrder => this.evaluate(conditionalOrder.id));
+  }
+
+  private evaluate(id: string): void {
+    const { getConditionalOrder, updateConditionalOrder } = useConditionalOrderStore.getState();
+
+    const conditionalOrder = getConditionalOrder(id);
+    if (!conditionalOrder || conditionalOrder.status !== 'ARMED') return;
+
+    const now = Date.now();
+    let changed = false;
+    const conditions = conditionalOrder.conditions.map(condition => {
+      // A percent change armed before its symbol had a price measures from the first price seen
+      const referencePrice = condition.type === 'PERCENT_CHANGE' && condition.referencePrice === undefined && condition.symbol
+        ? useMarketDataStore.getState().getMarketData(condition.symbol)?.price
+        : condition.referencePrice;
+      const met = this.isMet({ ...condition, referencePrice }, conditionalOrder.armedAt || conditionalOrder.createdAt, now);
+      if (met === condition.met && referencePrice === condition.referencePrice) return condition;
+
+      changed = true;
+      return { ...condition, referencePrice, met, metAt: met ? now : undefined };
+    });
+
+    const satisfied = conditionalOrder.logic === 'AND'
+      ? conditions.every(condition => condition.met)
+      : conditions.some(condition => condition.met);
+
+    if (!satisfied) {
+      // Only changes are written back, so a quiet market does not rewrite storage every second
+      if (changed) updateConditionalOrder(id, { conditions });
+      return;
+    }
+
+    // Marked triggered before the order goes out, so a market data update meanwhile can't send it twice
+    updateConditionalOrder(id, { conditions, status: 'TRIGGERED', triggeredAt: now });
+    console.log(`Conditional order triggered: ${id}`);
+
+    const { order } = conditionalOrder;
+    orderService.submitOrder({
+      symbol: order.symbol,
+      side: order.side,
+      orderType: order.orderType,
+      quantity: order.quantity,
+      price: order.orderType === 'MARKET' ? undefined : order.price,
+      stopPrice: order.stopPrice,
+      timeInForce: order.timeInForce,
+    }).then(orderId => updateConditionalOrder(id, { orderId }));
+  }
+
+  // Levels are met on touching them, as stops are
+  private isMet(condition: OrderCondition, armedAt: number, now: number): boolean {
+    if (condition.type === 'TIME') {
+      return condition.time !== undefined && now >= this.getNextTimeOfDay(condition.time, armedAt);
+    }
+
+    const observed = this.getObservedValue(condition);
+    if (observed === undefined || Number.isNaN(observed)) return false;
+
+    return condition.comparator === 'ABOVE' ? observed >= condition.value : observed <= condition.value;
+  }
+
+  private getObservedValue(condition: OrderCondition): number | undefined {
+    const { getMarketData, getOHLCV } = useMarketDataStore.getState();
+    const price = getMarketData(condition.symbol!)?.price;
+
+    switch (condition.type) {
+      case 'PRICE':
+        return price;
+      case 'PERCENT_CHANGE':
+        return price !== undefined && condition.referencePrice
+          ? (price - condition.referencePrice) / condition.referencePrice * 100
+          : undefined;
+      case 'INDICATOR': {
+        // MACD keeps its standard 12/26/9 settings; the others take a single period
+        const params = condition.indicator === 'MACD'
+          ? undefined
+          : { period: condition.indicatorPeriod || DEFAULT_INDICATOR_PERIOD };
+        const series = backtestingEngine.calculateIndicator(condition.indicator!, getOHLCV(condition.symbol!), params);
+        return series[series.length - 1];
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  // "At 15:45" means the first 15:45 after the condition was armed, today or tomorrow
+  private getNextTimeOfDay(time: string, after: number): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    const target = new Date(after);
+    target.setHours(hours, minutes, 0, 0);
+    if (target.getTime() <= after) {
+      target.setDate(target.getDate() + 1);
+    }
+    return target.getTime();
+  }
+}
+
+export const conditionalOrderService = new ConditionalOrderService();
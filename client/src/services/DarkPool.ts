@@ -0,0 +1,177 @@
+import { Order, OrderSide } from '@/types/trading';
+import { MatchResult } from './MatchingEngine';
+
+interface Fill {
+  contra: Order;
+  quantity: number;
+}
+
+// A non-displayed book. Orders rest unseen, trade only at the lit midpoint and
+// only in sizes that satisfy both sides' minimum quantity. There is deliberately
+// no order book view: nothing here is published to market data.
+export class DarkPool {
+  private restingOrders: Map<string, Order[]> = new Map(); // symbol -> hidden orders in time priority
+
+  // Crosses the order against hidden interest, then rests what is left unless it is IOC or FOK.
+  // Without a midpoint (no two-sided lit quote, or outside continuous trading) nothing crosses.
+  addOrder(order: Order, midpoint?: number): MatchResult {
+    const result = this.createEmptyResult();
+    const incoming = { ...order };
+
+    const fills = midpoint === undefined ? [] : this.planFills(incoming, this.getEligibleContras(incoming, midpoint));
+    const fillable = fills.reduce((sum, fill) => sum + fill.quantity, 0);
+
+    if (incoming.timeInForce === 'FOK' && fillable < this.getRemaining(incoming)) {
+      result.cancelledOrders.push({ order: incoming, reason: 'FOK_UNFILLED' });
+      return result;
+    }
+
+    fills.forEach(({ contra, quantity }) => this.execute(incoming, contra, quantity, midpoint!, incoming.side, result));
+    this.removeFilled(incoming.symbol);
+
+    if (this.getRemaining(incoming) <= 0) return result;
+
+    if (incoming.timeInForce === 'IOC' || incoming.timeInForce === 'FOK') {
+      result.cancelledOrders.push({ order: incoming, reason: 'IOC_REMAINDER' });
+      return result;
+    }
+
+    this.insert(incoming);
+    return result;
+  }
+
+  // Re-runs the cross after the lit midpoint moves; resting orders may have come into range of each other
+  cross(symbol: string, midpoint: number): MatchResult {
+    const result = this.createEmptyResult();
+    const orders = this.restingOrders.get(symbol) || [];
+
+    // Each order in turn takes from the older contra interest it can now reach
+    orders.forEach(order => {
+      if (this.getRemaining(order) <= 0 || !this.isWithinLimit(order, midpoint)) return;
+
+      const older = this.getEligibleContras(order, midpoint).filter(contra => contra.timestamp <= order.timestamp);
+      this.planFills(order, older).forEach(({ contra, quantity }) => {
+        this.execute(order, contra, quantity, midpoint, order.side, result);
+      });
+    });
+
+    this.removeFilled(symbol);
+    return result;
+  }
+
+  replaceOrder(
+    orderId: string,
+    symbol: string,
+    changes: { price?: number; quantity?: number },
+    midpoint?: number
+  ): MatchResult | null {
+    const order = (this.restingOrders.get(symbol) || []).find(resting => resting.id === orderId);
+    if (!order) return null;
+
+    const price = changes.price ?? order.price;
+    const quantity = changes.quantity ?? order.quantity;
+
+    // As on the lit venues, only a size reduction keeps time priority
+    if (price === order.price && quantity <= order.quantity) {
+      order.quantity = quantity;
+      return { ...this.createEmptyResult(), updatedOrders: [order] };
+    }
+
+    this.cancelOrder(orderId, symbol);
+    return this.addOrder({ ...order, price, quantity, timestamp: Date.now() }, midpoint);
+  }
+
+  cancelOrder(orderId: string, symbol: string): boolean {
+    const orders = this.restingOrders.get(symbol) || [];
+    const remaining = orders.filter(order => order.id !== orderId);
+    if (remaining.length === orders.length) return false;
+
+    this.restingOrders.set(symbol, remaining);
+    return true;
+  }
+
+  getRestingOrders(symbol: string): Order[] {
+    return this.restingOrders.get(symbol) || [];
+  }
+
+  hasOrders(symbol: string): boolean {
+    return this.getRestingOrders(symbol).length > 0;
+  }
+
+  private getEligibleContras(order: Order, midpoint: number): Order[] {
+    if (!this.isWithinLimit(order, midpoint)) return [];
+
+    // Orders from the same trader never meet in the pool
+    return this.getRestingOrders(order.symbol).filter(contra =>
+      contra.side !== order.side &&
+      contra.id !== order.id &&
+      this.getRemaining(contra) > 0 &&
+      this.isWithinLimit(contra, midpoint) &&
+      !(order.traderId && contra.traderId === order.traderId)
+    );
+  }
+
+  // Walks the contras in time priority, skipping any pairing too small for either side's minimum
+  private planFills(order: Order, contras: Order[]): Fill[] {
+    const fills: Fill[] = [];
+    let remaining = this.getRemaining(order);
+
+    for (const contra of contras) {
+      if (remaining <= 0) break;
+
+      const quantity = Math.min(remaining, this.getRemaining(contra));
+      if (quantity < this.getMinimumExecution(order, remaining) || quantity < this.getMinimumExecution(contra, this.getRemaining(contra))) {
+        continue;
+      }
+
+      fills.push({ contra, quantity });
+      remaining -= quantity;
+    }
+
+    return fills;
+  }
+
+  // A minimum larger than what is left would strand the order, so it shrinks to the remainder
+  private getMinimumExecution(order: Order, remaining: number): number {
+    return Math.min(order.minQuantity || 0, remaining);
+  }
+
+  private execute(order: Order, contra: Order, quantity: number, midpoint: number, aggressorSide: OrderSide, result: MatchResult): void {
+    order.filledQuantity += quantity;
+    contra.filledQuantity += quantity;
+
+    const [buy, sell] = order.side === 'BUY' ? [order, contra] : [contra, order];
+    result.trades.push({
+      buyOrderId: buy.id,
+      sellOrderId: sell.id,
+      price: midpoint,
+      quantity,
+      timestamp: Date.now(),
+      aggressorSide,
+    });
+  }
+
+  // Market orders have no limit and cross wherever the midpoint is
+  private isWithinLimit(order: Order, midpoint: number): boolean {
+    if (order.orderType === 'MARKET' || !order.price) return true;
+    return order.side === 'BUY' ? midpoint <= order.price : midpoint >= order.price;
+  }
+
+  private getRemaining(order: Order): number {
+    return order.quantity - order.filledQuantity;
+  }
+
+  private insert(order: Order): void {
+    const orders = this.restingOrders.get(order.symbol) || [];
+    this.restingOrders.set(order.symbol, [...orders, order].sort((a, b) => a.timestamp - b.timestamp));
+  }
+
+  private removeFilled(symbol: string): void {
+    const orders = this.restingOrders.get(symbol) || [];
+    this.restingOrders.set(symbol, orders.filter(order => this.getRemaining(order) > 0));
+  }
+
+  private createEmptyResult(): MatchResult {
+    return { trades: [], updatedOrders: [], cancelledOrders: [] };
+  }
+}
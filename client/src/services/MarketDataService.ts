@@ -1,6 +1,7 @@
 import { MarketData, Tick, OHLCV, OrderBook, OrderBookLevel } from '@/types/market';
 import { useMarketDataStore } from '@/stores/useMarketDataStore';
 import { initialMarketData, initialOrderBooks, symbolVolatility, volatilityProfiles } from '@/data/sampleData';
+import { getVolumeMultiplier } from '@/data/volumeProfile';
 
 export class MarketDataService {
   private intervals: Map<string, NodeJS.Timeout> = new Map();
@@ -72,12 +73,15 @@ export class MarketDataService {
   }
 
   private updateAllMarketData(): void {
-    const { marketData, updateMarketData, addTick } = useMarketDataStore.getState();
+    const { marketData, updateMarketData, addTick, getSessionPhase } = useMarketDataStore.getState();
     
     this.symbols.forEach(symbol => {
       const current = marketData.get(symbol);
       if (!current) return;
       
+      // Nothing prints while a symbol is halted
+      if (getSessionPhase(symbol) === 'HALTED') return;
+      
       const volatilityLevel = symbolVolatility[symbol as keyof typeof symbolVolatility] || 'medium';
       const volatility = volatilityProfiles[volatilityLevel];
       
@@ -93,7 +97,7 @@ export class MarketDataService {
       
       // Calculate volume with U-shaped pattern (higher at open/close)
       const hour = new Date().getHours();
-      const volumeMultiplier = this.getVolumeMultiplier(hour);
+      const volumeMultiplier = getVolumeMultiplier(hour);
       const baseVolume = Math.floor(Math.random() * 1000 + 100);
       const newVolume = current.volume + Math.floor(baseVolume * volumeMultiplier);
       
@@ -233,14 +237,6 @@ export class MarketDataService {
     });
   }
 
-  private getVolumeMultiplier(hour: number): number {
-    // U-shaped volume pattern: higher at market open (9:30) and close (16:00)
-    if (hour >= 9 && hour <= 10) return 2.0; // Market open
-    if (hour >= 15 && hour <= 16) return 1.8; // Market close
-    if (hour >= 11 && hour <= 14) return 0.8; // Midday lull
-    return 1.0; // Normal hours
-  }
-
   // Public methods for external use
   subscribeToSymbol(symbol: string): void {
     if (!this.symbols.includes(symbol)) {
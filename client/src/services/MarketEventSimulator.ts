@@ -1,4 +1,5 @@
 import { useMarketDataStore } from '@/stores/useMarketDataStore';
+import { circuitBreakerService } from './CircuitBreakerService';
 
 export type MarketEventType =
   | 'MARKET_CRASH'
@@ -201,6 +202,10 @@ export class MarketEventSimulator {
 
     this.applyEventImpact(fullEvent);
 
+    if (fullEvent.type === 'CIRCUIT_BREAKER') {
+      this.applyTradingHalt(fullEvent);
+    }
+
     if (fullEvent.duration > 0) {
       setTimeout(() => {
         this.endEvent(eventId);
@@ -259,6 +264,18 @@ export class MarketEventSimulator {
     });
   }
 
+  private applyTradingHalt(event: MarketEvent): void {
+    const affectAllSymbols = event.affectedSymbols.includes('ALL');
+
+    useMarketDataStore.getState().marketData.forEach((_, symbol) => {
+      if (!affectAllSymbols && !event.affectedSymbols.includes(symbol)) {
+        return;
+      }
+
+      circuitBreakerService.haltSymbol(symbol, 'MARKET_EVENT', event.description, event.timestamp + event.duration);
+    });
+  }
+
   private endEvent(eventId: string): void {
     const event = this.activeEvents.get(eventId);
     if (!event) return;
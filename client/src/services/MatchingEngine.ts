@@ -1,127 +1,505 @@
-import { Order, OrderBookLevel } from '@/types/trading';
+import { Order, OrderSide, OrderBookLevel, AuctionState, AuctionType, BookEvent, BookEventType, MarketByOrder } from '@/types/trading';
+import { MatchingAlgorithm } from '@/types/market';
+import { OrderBookSide } from './OrderBookSide';
 
-interface MatchResult {
+export interface MatchResult {
   trades: Array<{
     buyOrderId: string;
     sellOrderId: string;
     price: number;
     quantity: number;
     timestamp: number;
+    aggressorSide?: OrderSide; // unset for auction uncrossings, where neither side takes
   }>;
   updatedOrders: Order[];
+  cancelledOrders: Array<{ order: Order; reason: CancelReason }>;
+}
+
+export type CancelReason = 'MARKET_REMAINDER' | 'AUCTION_EXPIRED' | 'SELF_TRADE_PREVENTION' | 'IOC_REMAINDER' | 'FOK_UNFILLED';
+
+// What happens to the part of a market order the book could not fill
+export type MarketRemainderPolicy = 'CANCEL' | 'CONVERT_TO_LIMIT';
+
+// What happens when two orders from the same trader would trade with each other
+export type SelfTradePreventionMode = 'NONE' | 'CANCEL_NEWEST' | 'CANCEL_OLDEST' | 'CANCEL_BOTH' | 'DECREMENT_AND_CANCEL';
+
+export interface MatchingEngineConfig {
+  marketRemainderPolicy: MarketRemainderPolicy;
+  selfTradePrevention: SelfTradePreventionMode;
+}
+
+// Per-instrument allocation at a price level; FIFO is strict price-time priority
+export interface AllocationConfig {
+  algorithm: MatchingAlgorithm;
+  lmmTraderId?: string;
+  lmmAllocationPercent?: number;
+  minProRataAllocation?: number;
+}
+
+export type BookEventListener = (event: BookEvent) => void;
+
+interface UncrossingCandidate {
+  price: number;
+  volume: number;
+  surplus: number;
 }
 
 export class MatchingEngine {
-  private buyOrders: Map<string, Order[]> = new Map(); // symbol -> orders
-  private sellOrders: Map<string, Order[]> = new Map(); // symbol -> orders
+  private buyOrders: Map<string, OrderBookSide> = new Map(); // symbol -> bids
+  private sellOrders: Map<string, OrderBookSide> = new Map(); // symbol -> asks
+  private auctions: Map<string, AuctionState> = new Map(); // symbol -> running call auction
+  private parkedOrders: Map<string, Order[]> = new Map(); // symbol -> ATO/ATC orders awaiting their auction
+  private lastTradePrices: Map<string, number> = new Map();
+  private allocations: Map<string, AllocationConfig> = new Map(); // symbol -> allocation algorithm
+  private bookEventListeners: Set<BookEventListener> = new Set();
+  private bookSequence: number = 0;
+  private config: MatchingEngineConfig;
 
-  constructor() {
+  constructor(config: Partial<MatchingEngineConfig> = {}) {
+    this.config = {
+      marketRemainderPolicy: 'CANCEL',
+      selfTradePrevention: 'CANCEL_NEWEST',
+      ...config,
+    };
     console.log('MatchingEngine initialized');
   }
 
+  setMarketRemainderPolicy(policy: MarketRemainderPolicy): void {
+    this.config.marketRemainderPolicy = policy;
+  }
+
+  setSelfTradePrevention(mode: SelfTradePreventionMode): void {
+    this.config.selfTradePrevention = mode;
+  }
+
+  // Subscribes to the market-by-order feed; returns the unsubscribe function
+  onBookEvent(listener: BookEventListener): () => void {
+    this.bookEventListeners.add(listener);
+    return () => this.bookEventListeners.delete(listener);
+  }
+
   addOrder(order: Order): MatchResult {
-    const symbol = order.symbol;
-    
-    if (order.side === 'BUY') {
-      const orders = this.buyOrders.get(symbol) || [];
-      orders.push(order);
-      // Sort by price (highest first), then by time (earliest first)
-      orders.sort((a, b) => {
-        if (a.price !== b.price) {
-          return (b.price || 0) - (a.price || 0);
-        }
-        return a.timestamp - b.timestamp;
-      });
-      this.buyOrders.set(symbol, orders);
-    } else {
-      const orders = this.sellOrders.get(symbol) || [];
-      orders.push(order);
-      // Sort by price (lowest first), then by time (earliest first)
-      orders.sort((a, b) => {
-        if (a.price !== b.price) {
-          return (a.price || 0) - (b.price || 0);
+    const auction = this.auctions.get(order.symbol);
+    const auctionType = this.getAuctionTypeFor(order);
+    
+    // Auction-only orders wait for the auction they were entered for
+    if (auctionType && auction?.auctionType !== auctionType) {
+      const parked = this.parkedOrders.get(order.symbol) || [];
+      this.parkedOrders.set(order.symbol, [...parked, order]);
+      return this.createEmptyResult();
+    }
+    
+    // During a call auction orders are collected without matching
+    if (auction) {
+      this.insertOrder(order);
+      return this.createEmptyResult();
+    }
+    
+    // Fill-or-kill trades its whole size against what is resting now, or not at all
+    if (order.timeInForce === 'FOK' && this.getMatchableQuantity(order) < order.quantity - order.filledQuantity) {
+      order.status = 'CANCELLED';
+      return { ...this.createEmptyResult(), cancelledOrders: [{ order, reason: 'FOK_UNFILLED' }] };
+    }
+    
+    const result = this.matchOrders(order);
+    
+    if (order.status !== 'CANCELLED' && order.filledQuantity < order.quantity) {
+      if (order.timeInForce === 'IOC' || order.timeInForce === 'FOK') {
+        order.status = 'CANCELLED';
+        result.cancelledOrders.push({ order, reason: 'IOC_REMAINDER' });
+      } else if (order.orderType === 'MARKET') {
+        this.handleMarketRemainder(order, result);
+      } else {
+        this.insertOrder(order);
+        if (this.isIceberg(order)) {
+          result.updatedOrders.push(order);
         }
-        return a.timestamp - b.timestamp;
-      });
-      this.sellOrders.set(symbol, orders);
+      }
     }
     
-    return this.matchOrders(symbol);
+    return result;
+  }
+
+  private insertOrder(order: Order): void {
+    // Reserve orders only ever show their current slice
+    if (this.isIceberg(order) && order.visibleQuantity === undefined) {
+      order.visibleQuantity = Math.min(order.displayQuantity!, order.quantity - order.filledQuantity);
+    }
+    
+    this.getBookSide(order.symbol, order.side).add(order);
+    this.emitBookEvent('ADD', order);
+  }
+
+  private emitBookEvent(type: BookEventType, order: Order, quantity: number = this.getAvailableQuantity(order)): void {
+    // Market orders collected in an auction have no price level to show
+    if (this.bookEventListeners.size === 0 || order.orderType === 'MARKET') return;
+    
+    const event: BookEvent = {
+      sequence: ++this.bookSequence,
+      type,
+      symbol: order.symbol,
+      orderId: order.id,
+      side: order.side,
+      price: order.price || 0,
+      quantity,
+      timestamp: Date.now(),
+    };
+    this.bookEventListeners.forEach(listener => listener(event));
+  }
+
+  private getBookSide(symbol: string, side: OrderSide): OrderBookSide {
+    const books = side === 'BUY' ? this.buyOrders : this.sellOrders;
+    let book = books.get(symbol);
+    if (!book) {
+      book = new OrderBookSide(side);
+      books.set(symbol, book);
+    }
+    return book;
+  }
+
+  private getOppositeSide(order: Order): OrderBookSide {
+    return this.getBookSide(order.symbol, order.side === 'BUY' ? 'SELL' : 'BUY');
+  }
+
+  private isIceberg(order: Order): boolean {
+    return order.displayQuantity !== undefined && order.displayQuantity > 0 && order.displayQuantity < order.quantity;
+  }
+
+  private getAvailableQuantity(order: Order): number {
+    const remaining = order.quantity - order.filledQuantity;
+    return this.isIceberg(order) ? Math.min(order.visibleQuantity ?? remaining, remaining) : remaining;
+  }
+
+  private replenishIceberg(order: Order): void {
+    // A refreshed slice is a new display: it goes to the back of its price level
+    order.visibleQuantity = Math.min(order.displayQuantity!, order.quantity - order.filledQuantity);
+    order.timestamp = Date.now();
+  }
+
+  private getAuctionTypeFor(order: Order): AuctionType | undefined {
+    if (order.timeInForce === 'ATO') return 'OPENING';
+    if (order.timeInForce === 'ATC') return 'CLOSING';
+    return undefined;
   }
 
-  private matchOrders(symbol: string): MatchResult {
-    const buyOrders = this.buyOrders.get(symbol) || [];
-    const sellOrders = this.sellOrders.get(symbol) || [];
+  private handleMarketRemainder(order: Order, result: MatchResult): void {
+    const lastTrade = result.trades[result.trades.length - 1];
     
-    const trades: MatchResult['trades'] = [];
-    const updatedOrders: Order[] = [];
+    // Market-to-limit: the remainder rests at the last execution price
+    if (this.config.marketRemainderPolicy === 'CONVERT_TO_LIMIT' && lastTrade) {
+      order.orderType = 'LIMIT';
+      order.price = lastTrade.price;
+      this.insertOrder(order);
+      result.updatedOrders.push(order);
+      return;
+    }
     
-    let buyIndex = 0;
-    let sellIndex = 0;
+    order.status = 'CANCELLED';
+    result.cancelledOrders.push({ order, reason: 'MARKET_REMAINDER' });
+  }
+
+  private createEmptyResult(): MatchResult {
+    return { trades: [], updatedOrders: [], cancelledOrders: [] };
+  }
+
+  private matchOrders(incoming: Order): MatchResult {
+    const restingOrders = this.getOppositeSide(incoming);
+    const result = this.createEmptyResult();
+    const allocation = this.getAllocation(incoming.symbol);
     
-    while (buyIndex < buyOrders.length && sellIndex < sellOrders.length) {
-      const buyOrder = buyOrders[buyIndex];
-      const sellOrder = sellOrders[sellIndex];
+    if (allocation.algorithm === 'FIFO') {
+      this.matchFifo(incoming, restingOrders, result);
+    } else {
+      this.matchProRata(incoming, restingOrders, allocation, result);
+    }
+    
+    return result;
+  }
+
+  private matchFifo(incoming: Order, restingOrders: OrderBookSide, result: MatchResult): void {
+    // Sweep the opposite side level by level, one trade per resting order
+    while (incoming.status !== 'CANCELLED' && incoming.filledQuantity < incoming.quantity) {
+      const resting = restingOrders.best();
       
       // Check if orders can match
-      if (!this.canMatch(buyOrder, sellOrder)) {
+      if (!resting || !this.canMatchResting(incoming, resting)) {
         break;
       }
       
-      // Determine trade price (price-time priority)
-      const tradePrice = this.determineTradePrice(buyOrder, sellOrder);
-      
-      // Determine trade quantity
-      const buyRemaining = buyOrder.quantity - buyOrder.filledQuantity;
-      const sellRemaining = sellOrder.quantity - sellOrder.filledQuantity;
-      const tradeQuantity = Math.min(buyRemaining, sellRemaining);
+      // Self-trade prevention is evaluated only when the two orders would actually trade
+      if (this.isSelfTrade(incoming, resting)) {
+        const restingRemoved = this.preventSelfTrade(incoming, resting, result);
+        if (restingRemoved) {
+          restingOrders.remove(resting.id);
+          this.emitBookEvent('DELETE', resting, 0);
+        }
+        continue;
+      }
       
-      // Create trade
-      trades.push({
-        buyOrderId: buyOrder.id,
-        sellOrderId: sellOrder.id,
-        price: tradePrice,
-        quantity: tradeQuantity,
-        timestamp: Date.now(),
-      });
+      // Determine trade quantity; a resting iceberg only trades its visible slice
+      const incomingRemaining = incoming.quantity - incoming.filledQuantity;
+      const tradeQuantity = Math.min(incomingRemaining, this.getAvailableQuantity(resting));
       
-      // Update orders
-      buyOrder.filledQuantity += tradeQuantity;
-      sellOrder.filledQuantity += tradeQuantity;
+      this.fillResting(incoming, resting, tradeQuantity, restingOrders, result);
+    }
+  }
+
+  private matchProRata(
+    incoming: Order,
+    restingOrders: OrderBookSide,
+    allocation: AllocationConfig,
+    result: MatchResult
+  ): void {
+    // Each pass allocates the incoming order across one whole price level
+    while (incoming.status !== 'CANCELLED' && incoming.filledQuantity < incoming.quantity) {
+      const best = restingOrders.best();
+      if (!best || !this.canMatchResting(incoming, best)) {
+        break;
+      }
       
-      // Calculate average fill prices
-      buyOrder.avgFillPrice = this.calculateAvgPrice(buyOrder, tradeQuantity, tradePrice);
-      sellOrder.avgFillPrice = this.calculateAvgPrice(sellOrder, tradeQuantity, tradePrice);
+      const levelOrders = Array.from(restingOrders.bestLevel()!.orders.values());
       
-      // Update order status
-      if (buyOrder.filledQuantity === buyOrder.quantity) {
-        buyOrder.status = 'FILLED';
-        buyIndex++;
+      // Self-trade prevention runs before the level is shared out
+      const selfTrade = levelOrders.find(order => this.isSelfTrade(incoming, order));
+      if (selfTrade) {
+        if (this.preventSelfTrade(incoming, selfTrade, result)) {
+          restingOrders.remove(selfTrade.id);
+          this.emitBookEvent('DELETE', selfTrade, 0);
+        }
+        continue;
       }
       
-      if (sellOrder.filledQuantity === sellOrder.quantity) {
-        sellOrder.status = 'FILLED';
-        sellIndex++;
-      }
+      const levelQuantity = levelOrders.reduce((sum, order) => sum + this.getAvailableQuantity(order), 0);
+      const quantity = Math.min(incoming.quantity - incoming.filledQuantity, levelQuantity);
+      const fills = this.allocateLevel(levelOrders, quantity, allocation);
       
-      updatedOrders.push(buyOrder, sellOrder);
+      levelOrders.forEach(resting => {
+        const fillQuantity = fills.get(resting) || 0;
+        if (fillQuantity > 0) {
+          this.fillResting(incoming, resting, fillQuantity, restingOrders, result);
+        }
+      });
     }
+  }
+
+  private allocateLevel(levelOrders: Order[], quantity: number, allocation: AllocationConfig): Map<Order, number> {
+    const fills = new Map<Order, number>();
+    let remaining = quantity;
     
-    // Remove filled orders from order book
-    if (buyIndex > 0) {
-      this.buyOrders.set(symbol, buyOrders.slice(buyIndex));
+    const capacity = (order: Order) => this.getAvailableQuantity(order) - (fills.get(order) || 0);
+    const allocate = (order: Order, amount: number) => {
+      const allocated = Math.min(amount, capacity(order), remaining);
+      if (allocated <= 0) return;
+      fills.set(order, (fills.get(order) || 0) + allocated);
+      remaining -= allocated;
+    };
+    
+    if (allocation.algorithm === 'FIFO_PRO_RATA') {
+      // 1. Top order: the first order at the level is filled ahead of the pro-rata pool
+      allocate(levelOrders[0], remaining);
+      
+      // 2. Lead market maker takes its guaranteed share of what is left
+      if (allocation.lmmTraderId && allocation.lmmAllocationPercent) {
+        let lmmQuantity = Math.floor(remaining * allocation.lmmAllocationPercent / 100);
+        levelOrders
+          .filter(order => order.traderId === allocation.lmmTraderId)
+          .forEach(order => {
+            const before = remaining;
+            allocate(order, lmmQuantity);
+            lmmQuantity -= before - remaining;
+          });
+      }
+    }
+    
+    // 3. Pro-rata: the pool is shared by size, rounding down and dropping allocations below the minimum
+    const pool = remaining;
+    const capacities = levelOrders.map(order => capacity(order));
+    const totalCapacity = capacities.reduce((sum, size) => sum + size, 0);
+    if (pool > 0 && totalCapacity > 0) {
+      levelOrders.forEach((order, index) => {
+        const share = Math.floor(pool * capacities[index] / totalCapacity);
+        if (share >= (allocation.minProRataAllocation ?? 1)) {
+          allocate(order, share);
+        }
+      });
     }
-    if (sellIndex > 0) {
-      this.sellOrders.set(symbol, sellOrders.slice(sellIndex));
+    
+    // 4. Whatever rounding left over goes out in time priority
+    levelOrders.forEach(order => allocate(order, remaining));
+    
+    return fills;
+  }
+
+  private fillResting(
+    incoming: Order,
+    resting: Order,
+    quantity: number,
+    restingOrders: OrderBookSide,
+    result: MatchResult
+  ): void {
+    const buyOrder = incoming.side === 'BUY' ? incoming : resting;
+    const sellOrder = incoming.side === 'BUY' ? resting : incoming;
+    const restingAvailable = this.getAvailableQuantity(resting);
+    
+    // Price-time priority: the resting order sets the price
+    this.executeTrade(buyOrder, sellOrder, this.determineTradePrice(resting), quantity, result, incoming.side);
+    this.emitBookEvent('EXECUTE', resting, quantity);
+    
+    // A complete execution takes the order out of the book without a separate delete
+    if (resting.status === 'FILLED') {
+      restingOrders.remove(resting.id);
+      return;
     }
+    if (!this.isIceberg(resting)) return;
+    
+    resting.visibleQuantity = restingAvailable - quantity;
+    
+    // Replenish from the reserve and requeue behind the rest of the level
+    if (resting.visibleQuantity === 0) {
+      this.replenishIceberg(resting);
+      restingOrders.requeue(resting);
+      this.emitBookEvent('DELETE', resting, 0);
+      this.emitBookEvent('ADD', resting);
+    }
+  }
+
+  private getMatchableQuantity(incoming: Order): number {
+    let quantity = 0;
+    
+    // Cancelling only the resting side lets the sweep carry on past own orders; any other mode stops the incoming order there
+    const stopsAtSelfTrade = this.config.selfTradePrevention !== 'CANCEL_OLDEST';
+    const fifo = this.getAllocation(incoming.symbol).algorithm === 'FIFO';
+    
+    // Levels are in priority order, so the first one out of reach ends the walk
+    this.getOppositeSide(incoming).forEachLevel(level => {
+      const levelOrders = Array.from(level.orders.values());
+      if (!this.canMatchResting(incoming, levelOrders[0])) return false;
+      
+      const selfTradeIndex = levelOrders.findIndex(resting => this.isSelfTrade(incoming, resting));
+      if (selfTradeIndex !== -1 && stopsAtSelfTrade) {
+        // FIFO trades the orders queued ahead of the own order; pro-rata levels run prevention before sharing out
+        if (fifo) {
+          quantity += levelOrders
+            .slice(0, selfTradeIndex)
+            .reduce((sum, resting) => sum + resting.quantity - resting.filledQuantity, 0);
+        }
+        return false;
+      }
+      
+      // Own orders never trade against each other while self-trade prevention is on
+      quantity += levelOrders
+        .filter(resting => !this.isSelfTrade(incoming, resting))
+        .reduce((sum, resting) => sum + resting.quantity - resting.filledQuantity, 0);
+    });
     
-    return { trades, updatedOrders };
+    return quantity;
+  }
+
+  private canMatchResting(incoming: Order, resting: Order): boolean {
+    return incoming.side === 'BUY'
+      ? this.canMatch(incoming, resting)
+      : this.canMatch(resting, incoming);
+  }
+
+  setAllocation(symbol: string, allocation: AllocationConfig): void {
+    this.allocations.set(symbol, allocation);
+  }
+
+  getAllocation(symbol: string): AllocationConfig {
+    return this.allocations.get(symbol) || { algorithm: 'FIFO' };
+  }
+
+  private isSelfTrade(incoming: Order, resting: Order): boolean {
+    return this.config.selfTradePrevention !== 'NONE' &&
+      incoming.traderId !== undefined &&
+      incoming.traderId === resting.traderId;
+  }
+
+  // Returns true when the resting order has left the book
+  private preventSelfTrade(incoming: Order, resting: Order, result: MatchResult): boolean {
+    const cancel = (order: Order) => {
+      order.status = 'CANCELLED';
+      result.cancelledOrders.push({ order, reason: 'SELF_TRADE_PREVENTION' });
+    };
+    
+    switch (this.config.selfTradePrevention) {
+      case 'CANCEL_NEWEST':
+        cancel(incoming);
+        return false;
+      case 'CANCEL_OLDEST':
+        cancel(resting);
+        return true;
+      case 'CANCEL_BOTH':
+        cancel(incoming);
+        cancel(resting);
+        return true;
+      case 'DECREMENT_AND_CANCEL': {
+        // Both sides shrink by the overlap; whichever is used up is cancelled
+        const overlap = Math.min(
+          incoming.quantity - incoming.filledQuantity,
+          resting.quantity - resting.filledQuantity
+        );
+        
+        [incoming, resting].forEach(order => {
+          if (order.quantity - order.filledQuantity === overlap) {
+            cancel(order);
+          } else {
+            order.quantity -= overlap;
+            if (order.visibleQuantity !== undefined) {
+              order.visibleQuantity = Math.min(order.visibleQuantity, order.quantity - order.filledQuantity);
+            }
+            result.updatedOrders.push(order);
+          }
+        });
+        
+        if (resting.status !== 'CANCELLED') {
+          this.emitBookEvent('MODIFY', resting);
+        }
+        return resting.status === 'CANCELLED';
+      }
+      default:
+        return false;
+    }
+  }
+
+  private executeTrade(
+    buyOrder: Order,
+    sellOrder: Order,
+    price: number,
+    quantity: number,
+    result: MatchResult,
+    aggressorSide?: OrderSide
+  ): void {
+    // Create trade
+    result.trades.push({
+      buyOrderId: buyOrder.id,
+      sellOrderId: sellOrder.id,
+      price,
+      quantity,
+      timestamp: Date.now(),
+      aggressorSide,
+    });
+    
+    // Update orders
+    buyOrder.filledQuantity += quantity;
+    sellOrder.filledQuantity += quantity;
+    
+    // Calculate average fill prices
+    buyOrder.avgFillPrice = this.calculateAvgPrice(buyOrder, quantity, price);
+    sellOrder.avgFillPrice = this.calculateAvgPrice(sellOrder, quantity, price);
+    
+    // Update order status
+    buyOrder.status = buyOrder.filledQuantity === buyOrder.quantity ? 'FILLED' : 'PARTIALLY_FILLED';
+    sellOrder.status = sellOrder.filledQuantity === sellOrder.quantity ? 'FILLED' : 'PARTIALLY_FILLED';
+    
+    this.lastTradePrices.set(buyOrder.symbol, price);
+    result.updatedOrders.push(buyOrder, sellOrder);
   }
 
   private canMatch(buyOrder: Order, sellOrder: Order): boolean {
-    // Only match limit orders for now
-    if (buyOrder.orderType !== 'LIMIT' || sellOrder.orderType !== 'LIMIT') {
-      return false;
+    // Market orders take whatever the other side offers
+    if (buyOrder.orderType === 'MARKET' || sellOrder.orderType === 'MARKET') {
+      return true;
     }
     
     if (!buyOrder.price || !sellOrder.price) {
@@ -132,13 +510,187 @@ export class MatchingEngine {
     return buyOrder.price >= sellOrder.price;
   }
 
-  private determineTradePrice(buyOrder: Order, sellOrder: Order): number {
-    // Price-time priority: earlier order gets their price
-    if (buyOrder.timestamp < sellOrder.timestamp) {
-      return buyOrder.price || 0;
-    } else {
-      return sellOrder.price || 0;
+  private determineTradePrice(restingOrder: Order): number {
+    // Price-time priority: the resting order sets the price
+    return restingOrder.price || 0;
+  }
+
+  startAuction(symbol: string, auctionType: AuctionType, referencePrice?: number): AuctionState {
+    this.auctions.set(symbol, {
+      symbol,
+      auctionType,
+      indicativeVolume: 0,
+      imbalanceQuantity: 0,
+      referencePrice: referencePrice ?? this.lastTradePrices.get(symbol),
+      startTime: Date.now(),
+    });
+    
+    // Release the orders that were parked for this auction
+    const parked = this.parkedOrders.get(symbol) || [];
+    parked
+      .filter(order => this.getAuctionTypeFor(order) === auctionType)
+      .forEach(order => this.insertOrder(order));
+    this.parkedOrders.set(symbol, parked.filter(order => this.getAuctionTypeFor(order) !== auctionType));
+    
+    return this.getIndicativeAuction(symbol)!;
+  }
+
+  isInAuction(symbol: string): boolean {
+    return this.auctions.has(symbol);
+  }
+
+  getIndicativeAuction(symbol: string): AuctionState | undefined {
+    const auction = this.auctions.get(symbol);
+    if (!auction) return undefined;
+    
+    return {
+      ...auction,
+      ...this.calculateUncrossing(symbol, auction.referencePrice),
+    };
+  }
+
+  private calculateUncrossing(
+    symbol: string,
+    referencePrice?: number
+  ): Pick<AuctionState, 'indicativePrice' | 'indicativeVolume' | 'imbalanceQuantity' | 'imbalanceSide'> {
+    const buyOrders = this.getBookSide(symbol, 'BUY').toArray();
+    const sellOrders = this.getBookSide(symbol, 'SELL').toArray();
+    
+    // Every limit price in the book is a candidate uncrossing price
+    const candidates = new Set<number>();
+    [...buyOrders, ...sellOrders].forEach(order => {
+      if (order.orderType !== 'MARKET' && order.price) {
+        candidates.add(order.price);
+      }
+    });
+    if (candidates.size === 0 && referencePrice) {
+      candidates.add(referencePrice);
+    }
+    
+    let best: UncrossingCandidate | undefined;
+    
+    Array.from(candidates).sort((a, b) => a - b).forEach(price => {
+      const demand = buyOrders
+        .filter(order => this.isExecutableAt(order, price))
+        .reduce((sum, order) => sum + order.quantity - order.filledQuantity, 0);
+      const supply = sellOrders
+        .filter(order => this.isExecutableAt(order, price))
+        .reduce((sum, order) => sum + order.quantity - order.filledQuantity, 0);
+      
+      const candidate = { price, volume: Math.min(demand, supply), surplus: demand - supply };
+      if (!best || this.isBetterUncrossing(candidate, best, referencePrice)) {
+        best = candidate;
+      }
+    });
+    
+    if (!best || best.volume === 0) {
+      return { indicativeVolume: 0, imbalanceQuantity: 0 };
     }
+    
+    return {
+      indicativePrice: best.price,
+      indicativeVolume: best.volume,
+      imbalanceQuantity: Math.abs(best.surplus),
+      imbalanceSide: best.surplus > 0 ? 'BUY' : best.surplus < 0 ? 'SELL' : undefined,
+    };
+  }
+
+  private isBetterUncrossing(
+    candidate: UncrossingCandidate,
+    current: UncrossingCandidate,
+    referencePrice?: number
+  ): boolean {
+    // 1. Maximum executable volume
+    if (candidate.volume !== current.volume) {
+      return candidate.volume > current.volume;
+    }
+    
+    // 2. Minimum imbalance
+    if (Math.abs(candidate.surplus) !== Math.abs(current.surplus)) {
+      return Math.abs(candidate.surplus) < Math.abs(current.surplus);
+    }
+    
+    // 3. Closest to the reference price
+    if (referencePrice === undefined) return false;
+    return Math.abs(candidate.price - referencePrice) < Math.abs(current.price - referencePrice);
+  }
+
+  private isExecutableAt(order: Order, price: number): boolean {
+    if (order.orderType === 'MARKET') return true;
+    if (!order.price) return false;
+    return order.side === 'BUY' ? order.price >= price : order.price <= price;
+  }
+
+  uncross(symbol: string): MatchResult {
+    const auction = this.auctions.get(symbol);
+    const result = this.createEmptyResult();
+    if (!auction) return result;
+    
+    const { indicativePrice, indicativeVolume } = this.calculateUncrossing(symbol, auction.referencePrice);
+    this.auctions.delete(symbol);
+    
+    const buyOrders = this.getBookSide(symbol, 'BUY').toArray();
+    const sellOrders = this.getBookSide(symbol, 'SELL').toArray();
+    
+    // Allocate the uncrossing volume in price-time priority, all at a single price
+    if (indicativePrice !== undefined && indicativeVolume > 0) {
+      const buys = buyOrders.filter(order => this.isExecutableAt(order, indicativePrice));
+      const sells = sellOrders.filter(order => this.isExecutableAt(order, indicativePrice));
+      let buyIndex = 0;
+      let sellIndex = 0;
+      
+      while (buyIndex < buys.length && sellIndex < sells.length) {
+        const buyOrder = buys[buyIndex];
+        const sellOrder = sells[sellIndex];
+        const quantity = Math.min(
+          buyOrder.quantity - buyOrder.filledQuantity,
+          sellOrder.quantity - sellOrder.filledQuantity
+        );
+        
+        this.executeTrade(buyOrder, sellOrder, indicativePrice, quantity, result);
+        this.emitBookEvent('EXECUTE', buyOrder, quantity);
+        this.emitBookEvent('EXECUTE', sellOrder, quantity);
+        
+        if (buyOrder.status === 'FILLED') buyIndex++;
+        if (sellOrder.status === 'FILLED') sellIndex++;
+      }
+    }
+    
+    // Unexecuted market orders and orders valid only for this auction do not carry over
+    const carriesOver = (order: Order) =>
+      order.status !== 'FILLED' &&
+      order.orderType !== 'MARKET' &&
+      this.getAuctionTypeFor(order) !== auction.auctionType;
+    
+    const leftovers = [...buyOrders, ...sellOrders].filter(order => order.status !== 'FILLED' && !carriesOver(order));
+    [...buyOrders, ...sellOrders]
+      .filter(order => !carriesOver(order))
+      .forEach(order => {
+        this.getBookSide(symbol, order.side).remove(order.id);
+        if (order.status !== 'FILLED') {
+          this.emitBookEvent('DELETE', order, 0);
+        }
+      });
+    
+    // Reserve quantity takes part in the auction in full; survivors show a fresh slice
+    [...buyOrders, ...sellOrders]
+      .filter(order => carriesOver(order) && this.isIceberg(order) && order.filledQuantity > 0)
+      .forEach(order => {
+        order.visibleQuantity = Math.min(order.displayQuantity!, order.quantity - order.filledQuantity);
+        result.updatedOrders.push(order);
+        this.emitBookEvent('MODIFY', order);
+      });
+    
+    leftovers.forEach(order => {
+      if (order.orderType === 'MARKET') {
+        this.handleMarketRemainder(order, result);
+      } else {
+        order.status = 'CANCELLED';
+        result.cancelledOrders.push({ order, reason: 'AUCTION_EXPIRED' });
+      }
+    });
+    
+    return result;
   }
 
   private calculateAvgPrice(order: Order, newQuantity: number, newPrice: number): number {
@@ -148,12 +700,9 @@ export class MatchingEngine {
   }
 
   getOrderBook(symbol: string): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } {
-    const buyOrders = this.buyOrders.get(symbol) || [];
-    const sellOrders = this.sellOrders.get(symbol) || [];
-    
     // Aggregate orders by price level
-    const bidLevels = this.aggregateOrdersByPrice(buyOrders);
-    const askLevels = this.aggregateOrdersByPrice(sellOrders);
+    const bidLevels = this.aggregateOrdersByPrice(this.getBookSide(symbol, 'BUY'));
+    const askLevels = this.aggregateOrdersByPrice(this.getBookSide(symbol, 'SELL'));
     
     return {
       bids: bidLevels,
@@ -161,64 +710,115 @@ export class MatchingEngine {
     };
   }
 
-  private aggregateOrdersByPrice(orders: Order[]): OrderBookLevel[] {
-    const priceMap = new Map<number, { quantity: number; orderCount: number }>();
+  // Level 3 view: every displayed order at the top price levels, in queue order
+  getMarketByOrder(symbol: string, depth: number = 10): MarketByOrder {
+    const toLevels = (book: OrderBookSide) => {
+      const levels: MarketByOrder['bids'] = [];
+      book.forEachLevel(level => {
+        if (levels.length === depth) return false;
+        if (!Number.isFinite(level.price) || level.price <= 0) return;
+        
+        let quantityAhead = 0;
+        const orders = Array.from(level.orders.values()).map((order, index) => {
+          const quantity = this.getAvailableQuantity(order);
+          const entry = { orderId: order.id, quantity, timestamp: order.timestamp, queuePosition: index + 1, quantityAhead };
+          quantityAhead += quantity;
+          return entry;
+        });
+        levels.push({ price: level.price, orders });
+      });
+      return levels;
+    };
     
-    orders.forEach(order => {
-      if (!order.price || order.status === 'FILLED' || order.status === 'CANCELLED') return;
-      
-      const remainingQuantity = order.quantity - order.filledQuantity;
-      const existing = priceMap.get(order.price) || { quantity: 0, orderCount: 0 };
-      
-      priceMap.set(order.price, {
-        quantity: existing.quantity + remainingQuantity,
-        orderCount: existing.orderCount + 1,
+    return {
+      symbol,
+      bids: toLevels(this.getBookSide(symbol, 'BUY')),
+      asks: toLevels(this.getBookSide(symbol, 'SELL')),
+      sequence: this.bookSequence,
+      timestamp: Date.now(),
+    };
+  }
+
+  private aggregateOrdersByPrice(book: OrderBookSide): OrderBookLevel[] {
+    // Market orders waiting in an auction have no price to show
+    return book.getLevels()
+      .filter(level => Number.isFinite(level.price) && level.price > 0)
+      .map(level => {
+        const orders = Array.from(level.orders.values());
+        return {
+          price: level.price,
+          quantity: orders.reduce((sum, order) => sum + this.getAvailableQuantity(order), 0),
+          orderCount: orders.length,
+        };
       });
-    });
+  }
+
+  replaceOrder(orderId: string, symbol: string, changes: { price?: number; quantity?: number }): MatchResult | null {
+    const order = this.getBookSide(symbol, 'BUY').get(orderId) || this.getBookSide(symbol, 'SELL').get(orderId);
+    if (!order) return null;
     
-    return Array.from(priceMap.entries()).map(([price, data]) => ({
-      price,
-      quantity: data.quantity,
-      orderCount: data.orderCount,
-    }));
+    const price = changes.price ?? order.price;
+    const quantity = changes.quantity ?? order.quantity;
+    
+    // Reducing size is the only amendment that keeps the order's place in the queue
+    if (price === order.price && quantity <= order.quantity) {
+      order.quantity = quantity;
+      if (this.isIceberg(order)) {
+        order.visibleQuantity = Math.min(order.visibleQuantity ?? order.displayQuantity!, quantity - order.filledQuantity);
+      }
+      this.emitBookEvent('MODIFY', order);
+      return { ...this.createEmptyResult(), updatedOrders: [order] };
+    }
+    
+    // A new price or a larger size is a new order as far as the queue is concerned
+    this.cancelOrder(orderId, symbol);
+    order.price = price;
+    order.quantity = quantity;
+    order.timestamp = Date.now();
+    
+    const result = this.addOrder(order);
+    if (!result.updatedOrders.includes(order)) {
+      result.updatedOrders.push(order);
+    }
+    return result;
   }
 
   cancelOrder(orderId: string, symbol: string): boolean {
-    const buyOrders = this.buyOrders.get(symbol) || [];
-    const sellOrders = this.sellOrders.get(symbol) || [];
-    
-    // Find and remove from buy orders
-    const buyIndex = buyOrders.findIndex(order => order.id === orderId);
-    if (buyIndex !== -1) {
-      buyOrders.splice(buyIndex, 1);
-      this.buyOrders.set(symbol, buyOrders);
+    // Remove from whichever side of the book holds the order
+    const removed = this.getBookSide(symbol, 'BUY').remove(orderId) || this.getBookSide(symbol, 'SELL').remove(orderId);
+    if (removed) {
+      this.emitBookEvent('DELETE', removed, 0);
       return true;
     }
     
-    // Find and remove from sell orders
-    const sellIndex = sellOrders.findIndex(order => order.id === orderId);
-    if (sellIndex !== -1) {
-      sellOrders.splice(sellIndex, 1);
-      this.sellOrders.set(symbol, sellOrders);
+    // Find and remove from orders parked for an auction
+    const parkedOrders = this.parkedOrders.get(symbol) || [];
+    const parkedIndex = parkedOrders.findIndex(order => order.id === orderId);
+    if (parkedIndex !== -1) {
+      parkedOrders.splice(parkedIndex, 1);
       return true;
     }
     
     return false;
   }
 
+  // Whether the order is resting in the book or parked for an auction
+  hasOrder(orderId: string, symbol: string): boolean {
+    return this.getBookSide(symbol, 'BUY').get(orderId) !== undefined ||
+      this.getBookSide(symbol, 'SELL').get(orderId) !== undefined ||
+      (this.parkedOrders.get(symbol) || []).some(order => order.id === orderId);
+  }
+
   getOrderCount(symbol: string): { buyCount: number; sellCount: number } {
-    const buyOrders = this.buyOrders.get(symbol) || [];
-    const sellOrders = this.sellOrders.get(symbol) || [];
-    
     return {
-      buyCount: buyOrders.length,
-      sellCount: sellOrders.length,
+      buyCount: this.getBookSide(symbol, 'BUY').size,
+      sellCount: this.getBookSide(symbol, 'SELL').size,
     };
   }
 
   getTotalVolume(symbol: string): { buyVolume: number; sellVolume: number } {
-    const buyOrders = this.buyOrders.get(symbol) || [];
-    const sellOrders = this.sellOrders.get(symbol) || [];
+    const buyOrders = this.getBookSide(symbol, 'BUY').toArray();
+    const sellOrders = this.getBookSide(symbol, 'SELL').toArray();
     
     const buyVolume = buyOrders.reduce((sum, order) => 
       sum + (order.quantity - order.filledQuantity), 0
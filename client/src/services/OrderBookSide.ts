@@ -0,0 +1,173 @@
+import { Order, OrderSide } from '@/types/trading';
+
+// All resting orders at one price, in time priority. A Map keeps insertion
+// order, so appends, removals by id and front-of-queue reads are all O(1).
+export interface PriceLevel {
+  price: number;
+  orders: Map<string, Order>;
+  newestTimestamp: number;
+}
+
+// A price level's place in the skip list; next[i] is the following level on lane i
+interface LevelNode {
+  level?: PriceLevel; // unset only on the head
+  next: (LevelNode | undefined)[];
+}
+
+const MAX_LANES = 32;
+
+// One side of one symbol's book: price levels in a skip list ordered best first,
+// plus an order-id index so cancels never have to search. Adding to an existing
+// level is O(1); opening or closing a level is O(log levels), however deep the book.
+export class OrderBookSide {
+  private head: LevelNode = { next: [] };
+  private lanes = 0;
+  private levelsByPrice: Map<number, PriceLevel> = new Map();
+  private index: Map<string, PriceLevel> = new Map(); // order id -> level holding it
+
+  constructor(private side: OrderSide) {}
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  add(order: Order): void {
+    const price = this.getPriorityPrice(order);
+    let level = this.levelsByPrice.get(price);
+
+    if (!level) {
+      level = { price, orders: new Map(), newestTimestamp: order.timestamp };
+      this.insertLevel(level);
+      this.levelsByPrice.set(price, level);
+    }
+
+    level.orders.set(order.id, order);
+    this.index.set(order.id, level);
+
+    // Orders normally arrive in time order; anything older is put back in its place
+    if (order.timestamp < level.newestTimestamp) {
+      const sorted = Array.from(level.orders.values()).sort((a, b) => a.timestamp - b.timestamp);
+      level.orders = new Map(sorted.map(resting => [resting.id, resting]));
+    } else {
+      level.newestTimestamp = order.timestamp;
+    }
+  }
+
+  remove(orderId: string): Order | undefined {
+    const level = this.index.get(orderId);
+    if (!level) return undefined;
+
+    const order = level.orders.get(orderId);
+    level.orders.delete(orderId);
+    this.index.delete(orderId);
+
+    if (level.orders.size === 0) {
+      this.removeLevel(level.price);
+      this.levelsByPrice.delete(level.price);
+    }
+
+    return order;
+  }
+
+  get(orderId: string): Order | undefined {
+    return this.index.get(orderId)?.orders.get(orderId);
+  }
+
+  // Sends an order to the back of its level, as when an iceberg refreshes its slice
+  requeue(order: Order): void {
+    const level = this.index.get(order.id);
+    if (!level) return;
+
+    level.orders.delete(order.id);
+    level.orders.set(order.id, order);
+    level.newestTimestamp = Math.max(level.newestTimestamp, order.timestamp);
+  }
+
+  best(): Order | undefined {
+    const level = this.bestLevel();
+    return level && level.orders.values().next().value;
+  }
+
+  bestLevel(): PriceLevel | undefined {
+    return this.head.next[0]?.level;
+  }
+
+  // Visits price levels best first until the visitor returns false, so a walk that stops early never reads the rest of the book
+  forEachLevel(visit: (level: PriceLevel) => boolean | void): void {
+    for (let node = this.head.next[0]; node; node = node.next[0]) {
+      if (visit(node.level!) === false) return;
+    }
+  }
+
+  getLevels(): PriceLevel[] {
+    const levels: PriceLevel[] = [];
+    this.forEachLevel(level => {
+      levels.push(level);
+    });
+    return levels;
+  }
+
+  // Every resting order in priority order
+  toArray(): Order[] {
+    return this.getLevels().flatMap(level => Array.from(level.orders.values()));
+  }
+
+  private getPriorityPrice(order: Order): number {
+    // Market orders collected in an auction queue ahead of every limit price
+    if (order.orderType === 'MARKET') {
+      return this.side === 'BUY' ? Infinity : -Infinity;
+    }
+    return order.price || 0;
+  }
+
+  private isBetter(a: number, b: number): boolean {
+    return this.side === 'BUY' ? a > b : a < b;
+  }
+
+  // The last node on each lane whose price is better than the given price
+  private findPredecessors(price: number): LevelNode[] {
+    const predecessors: LevelNode[] = [];
+    let node = this.head;
+
+    for (let lane = this.lanes - 1; lane >= 0; lane--) {
+      let next = node.next[lane];
+      while (next && this.isBetter(next.level!.price, price)) {
+        node = next;
+        next = node.next[lane];
+      }
+      predecessors[lane] = node;
+    }
+
+    return predecessors;
+  }
+
+  private insertLevel(level: PriceLevel): void {
+    const predecessors = this.findPredecessors(level.price);
+
+    // Each lane up carries half the levels of the one below it
+    let lanes = 1;
+    while (lanes < MAX_LANES && Math.random() < 0.5) lanes++;
+    for (; this.lanes < lanes; this.lanes++) {
+      predecessors[this.lanes] = this.head;
+    }
+
+    const node: LevelNode = { level, next: [] };
+    for (let lane = 0; lane < lanes; lane++) {
+      node.next[lane] = predecessors[lane].next[lane];
+      predecessors[lane].next[lane] = node;
+    }
+  }
+
+  private removeLevel(price: number): void {
+    const predecessors = this.findPredecessors(price);
+    const node = predecessors[0]?.next[0];
+    if (!node || node.level!.price !== price) return;
+
+    node.next.forEach((next, lane) => {
+      predecessors[lane].next[lane] = next;
+    });
+    while (this.lanes > 0 && !this.head.next[this.lanes - 1]) {
+      this.lanes--;
+    }
+  }
+}
@@ -1,26 +1,180 @@
-import { Order, Trade, ExecutionReport, OrderType, OrderSide, OrderStatus } from '@/types/trading';
+import { Order, Trade, ExecutionReport, OrderType, OrderSide, TimeInForce, AuctionType, PegType, StopTriggerType, TrailType, LiquidityIndicator, BookEvent, AlgoParams, ContingentOrder, OrderLeg, MarketByOrderLevel, ImpliedQuote } from '@/types/trading';
+import { MarketData, OrderBookLevel, SessionPhase, Venue, VenueQuote } from '@/types/market';
 import { useOrderStore } from '@/stores/useOrderStore';
 import { useMarketDataStore } from '@/stores/useMarketDataStore';
 import { usePositionStore } from '@/stores/usePositionStore';
 import { useTutorialStore } from '@/stores/useTutorialStore';
-import { MatchingEngine } from './MatchingEngine';
+import { instruments } from '@/data/instruments';
+import { SMART_ROUTE, DARK_POOL, getVenuesForSymbol, getPrimaryVenueId, isDarkPoolEligible } from '@/data/venues';
+import { LegQuote, getTradedLegs, getImpliedSpreadQuote, getImpliedInQuote, roundToSpreadTick } from '@/data/spreads';
+import { getNextSessionClose } from '@/utils/tradingHours';
+import { formatSessionPhase } from '@/utils/formatters';
+import { calculateATR } from '@/utils/calculations';
+import {
+  MatchingEngine,
+  MatchingEngineConfig,
+  MatchResult,
+  MarketRemainderPolicy,
+  SelfTradePreventionMode,
+  CancelReason,
+} from './MatchingEngine';
+import { StopTriggerEngine } from './StopTriggerEngine';
+import { OrderValidator, OrderRejection, ALGO_ORDER_TYPES } from './OrderValidator';
+import { SmartOrderRouter } from './SmartOrderRouter';
+import { DarkPool } from './DarkPool';
+import { SpreadOrderBook } from './SpreadOrderBook';
+
+const LIQUIDITY_COUNTERPARTY = 'MARKET';
+const DEFAULT_TRADER_ID = 'TRADER_1';
+
+// Order types that sit in the book as priced orders
+const RESTING_ORDER_TYPES: OrderType[] = ['LIMIT', 'ICEBERG', 'PEGGED'];
+
+const CANCEL_REASON_TEXT: Record<CancelReason, string> = {
+  MARKET_REMAINDER: 'Unfilled market order remainder',
+  AUCTION_EXPIRED: 'Not executed in auction',
+  SELF_TRADE_PREVENTION: 'Self-trade prevention',
+  IOC_REMAINDER: 'Immediate-or-cancel remainder',
+  FOK_UNFILLED: 'Fill-or-kill could not be filled in full',
+};
+
+const EXPIRY_CHECK_INTERVAL_MS = 1000;
+
+// ATR trails measure volatility over bars built from the tick tape
+const ATR_BAR_MS = 10000;
+const ATR_PERIODS = 14;
+
+// Chance per market data update that a block from another participant arrives in the dark pool
+const DARK_FLOW_PROBABILITY = 0.15;
+const DARK_FLOW_MAX_SHARES = 5000;
+
+// Takes over an accepted algo parent order; children go back out through submitChildOrder
+export type AlgoHandler = (order: Order) => void;
+
+// Told about each fill on a client order, routed parents included, once the order reflects it
+export type FillListener = (order: Order, quantity: number, price: number) => void;
+
+// Each venue runs its own book, seeded with its share of the simulated market
+interface VenueEngine {
+  venue: Venue;
+  engine: MatchingEngine;
+  liquidityOrders: Map<string, Order[]>; // symbol -> synthetic resting orders
+}
 
 export class OrderService {
-  private matchingEngine: MatchingEngine;
+  private venueEngines: Map<string, VenueEngine> = new Map(); // venue id -> its matching engine
+  private engineConfig: Partial<MatchingEngineConfig> = {};
+  private stopTriggerEngine: StopTriggerEngine;
+  private orderValidator: OrderValidator;
+  private smartOrderRouter: SmartOrderRouter;
+  private darkPool: DarkPool;
+  private spreadBook: SpreadOrderBook;
+  private workingSpreads: boolean = false; // set while resting spreads trade, so the book updates they cause don't re-enter
   private orderSequence: number = 1;
+  private tradeSequence: number = 1;
+  private liquiditySequence: number = 1;
+  private sessionPhases: Map<string, SessionPhase> = new Map(); // symbol -> last phase acted on
+  private queuedOrders: Map<string, string[]> = new Map(); // symbol -> order ids waiting for the session
+  private postVenues: Map<string, string> = new Map(); // routed parent id -> venue its remainder will rest on
+  private pendingBookEvents: Map<string, BookEvent[]> = new Map(); // symbol -> L3 events not yet published
+  private algoHandlers: Map<OrderType, AlgoHandler> = new Map();
+  private fillListeners: FillListener[] = [];
+  private unsubscribers: Array<() => void> = [];
 
   constructor() {
-    this.matchingEngine = new MatchingEngine();
+    this.stopTriggerEngine = new StopTriggerEngine();
+    this.orderValidator = new OrderValidator();
+    this.smartOrderRouter = new SmartOrderRouter();
+    this.darkPool = new DarkPool();
+    this.spreadBook = new SpreadOrderBook();
   }
 
   initialize(): void {
+    if (this.unsubscribers.length > 0) return;
+    
     // Load existing orders from storage
     const { loadFromStorage } = useOrderStore.getState();
     loadFromStorage();
     
+    // Working orders from a previous session rest in the book again, unless they have lapsed
+    this.expireOrders();
+    this.restoreWorkingOrders();
+    
+    // Keep synthetic liquidity in step with the simulated market
+    this.unsubscribers.push(useMarketDataStore.subscribe(
+      state => state.orderBooks,
+      () => this.refreshLiquidity()
+    ));
+    
+    // Resting spreads trade against their legs whenever the legs' books move
+    this.unsubscribers.push(useMarketDataStore.subscribe(
+      state => state.orderBooks,
+      () => this.workRestingSpreads()
+    ));
+    
+    // Pegged orders follow the NBBO
+    this.unsubscribers.push(useMarketDataStore.subscribe(
+      state => state.marketData,
+      () => this.repricePeggedOrders()
+    ));
+    
+    // Dark orders cross whenever the lit midpoint moves
+    this.unsubscribers.push(useMarketDataStore.subscribe(
+      state => state.marketData,
+      marketData => marketData.forEach((_, symbol) => this.crossDarkPool(symbol))
+    ));
+    
+    // Session transitions run the auctions and release queued orders
+    this.handleSessionPhases(useMarketDataStore.getState().sessionPhases);
+    this.unsubscribers.push(useMarketDataStore.subscribe(
+      state => state.sessionPhases,
+      phases => this.handleSessionPhases(phases)
+    ));
+    
+    // Stops watch the last trade, bid or ask for their trigger
+    this.unsubscribers.push(useMarketDataStore.subscribe(
+      state => state.marketData,
+      marketData => marketData.forEach((data, symbol) => this.triggerStopOrders(symbol, data))
+    ));
+    
+    // DAY, GFS, GTD and GTT orders lapse on the clock rather than on market events
+    const expiryTimer = setInterval(() => this.expireOrders(), EXPIRY_CHECK_INTERVAL_MS);
+    this.unsubscribers.push(() => clearInterval(expiryTimer));
+    
     console.log('OrderService initialized');
   }
 
+  setMarketRemainderPolicy(policy: MarketRemainderPolicy): void {
+    this.engineConfig.marketRemainderPolicy = policy;
+    this.venueEngines.forEach(({ engine }) => engine.setMarketRemainderPolicy(policy));
+  }
+
+  setSelfTradePrevention(mode: SelfTradePreventionMode): void {
+    this.engineConfig.selfTradePrevention = mode;
+    this.venueEngines.forEach(({ engine }) => engine.setSelfTradePrevention(mode));
+  }
+
+  setPriceCollar(percent: number): void {
+    this.orderValidator.setPriceCollar(percent);
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  registerAlgo(orderType: OrderType, handler: AlgoHandler): void {
+    this.algoHandlers.set(orderType, handler);
+  }
+
+  // Returns the unsubscribe function
+  onFill(listener: FillListener): () => void {
+    this.fillListeners.push(listener);
+    return () => {
+      this.fillListeners = this.fillListeners.filter(existing => existing !== listener);
+    };
+  }
+
   async submitOrder(orderData: {
     symbol: string;
     side: OrderSide;
@@ -28,10 +182,25 @@ export class OrderService {
     quantity: number;
     price?: number;
     stopPrice?: number;
-    timeInForce: 'DAY' | 'GTC' | 'IOC' | 'FOK' | 'GTD';
+    timeInForce: TimeInForce;
     gatewayType?: 'FIX' | 'OUCH';
+    venue?: string;
+    expireDate?: number;
+    displayQuantity?: number;
+    minQuantity?: number;
+    traderId?: string;
+    pegType?: PegType;
+    pegOffset?: number;
+    triggerType?: StopTriggerType;
+    trailType?: TrailType;
+    trailAmount?: number;
+    algoParams?: AlgoParams;
+    legs?: OrderLeg[];
+    contingentOrders?: ContingentOrder[];
+    bracketEntryId?: string;
+    ocoGroupId?: string;
   }): Promise<string> {
-    const { createOrder, addExecutionReport } = useOrderStore.getState();
+    const { createOrder } = useOrderStore.getState();
     
     // Generate client order ID
     const clientOrderId = `CLT_${Date.now()}_${this.orderSequence++}`;
@@ -45,10 +214,42 @@ export class OrderService {
       quantity: orderData.quantity,
       price: orderData.price,
       stopPrice: orderData.stopPrice,
+      triggerType: orderData.triggerType,
+      trailType: orderData.trailType,
+      trailAmount: orderData.trailAmount,
       timeInForce: orderData.timeInForce,
       gatewayType: orderData.gatewayType || 'FIX',
+      venue: orderData.venue || SMART_ROUTE,
+      expireDate: orderData.expireDate,
+      displayQuantity: orderData.displayQuantity,
+      minQuantity: orderData.minQuantity,
+      traderId: orderData.traderId || DEFAULT_TRADER_ID,
+      pegType: orderData.pegType,
+      pegOffset: orderData.pegOffset,
+      algoParams: orderData.algoParams,
+      legs: orderData.legs,
+      contingentOrders: orderData.contingentOrders,
+      bracketEntryId: orderData.bracketEntryId,
+      ocoGroupId: orderData.ocoGroupId,
     });
     
+    this.acknowledgeOrder(orderId);
+    
+    // Track order for tutorial achievements
+    const tutorialStore = useTutorialStore.getState();
+    tutorialStore.incrementOrdersPlaced();
+    tutorialStore.addInstrumentTraded(orderData.symbol);
+    
+    // Process order through matching engine
+    setTimeout(() => {
+      this.processOrder(orderId);
+    }, Math.random() * 100 + 50); // Simulate network latency
+    
+    console.log(`Order submitted: ${orderId}`);
+    return orderId;
+  }
+
+  private acknowledgeOrder(orderId: string): void {
     // Create initial execution report (NEW)
     const newExecutionReport: ExecutionReport = {
       id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -63,55 +264,92 @@ export class OrderService {
       timestamp: Date.now(),
     };
     
-    addExecutionReport(newExecutionReport);
-    
-    // Track order for tutorial achievements
-    const tutorialStore = useTutorialStore.getState();
-    tutorialStore.incrementOrdersPlaced();
-    tutorialStore.addInstrumentTraded(orderData.symbol);
-    
-    // Process order through matching engine
-    setTimeout(() => {
-      this.processOrder(orderId);
-    }, Math.random() * 100 + 50); // Simulate network latency
-    
-    console.log(`Order submitted: ${orderId}`);
-    return orderId;
+    useOrderStore.getState().addExecutionReport(newExecutionReport);
   }
 
   private async processOrder(orderId: string): Promise<void> {
-    const { getOrder, addExecutionReport, addTrade } = useOrderStore.getState();
+    const { getOrder } = useOrderStore.getState();
     const { getMarketData } = useMarketDataStore.getState();
-    const { updatePosition } = usePositionStore.getState();
     
-    const order = getOrder(orderId);
+    let order = getOrder(orderId);
     if (!order || order.status !== 'NEW') return;
     
+    // Spreads have no market data of their own; they trade through their legs' books
+    if (order.orderType === 'MULTI_LEG') {
+      this.processSpreadOrder(order);
+      return;
+    }
+    
     const marketData = getMarketData(order.symbol);
     if (!marketData) {
-      this.rejectOrder(orderId, 'No market data available');
+      this.rejectOrder(orderId, { code: 'UNKNOWN_SYMBOL', text: 'No market data available' });
+      return;
+    }
+    
+    // Field, reference data and price collar validation
+    const rejectReason = this.validateOrder(order, marketData.price);
+    if (rejectReason) {
+      this.rejectOrder(orderId, rejectReason);
+      return;
+    }
+    
+    // The trading phase decides whether the order goes in now, waits, or is turned away
+    const phase = useMarketDataStore.getState().getSessionPhase(order.symbol);
+    const sessionRejectReason = this.getSessionRejectReason(order, phase);
+    if (sessionRejectReason) {
+      this.rejectOrder(orderId, sessionRejectReason);
+      return;
+    }
+    if (this.shouldQueueForSession(phase)) {
+      this.queueOrder(order, phase!);
       return;
     }
     
-    // Basic order validation
-    if (!this.validateOrder(order)) {
-      this.rejectOrder(orderId, 'Order validation failed');
+    if (order.venue === DARK_POOL.id) {
+      this.processDarkOrder(order);
       return;
     }
     
+    // Resting spreads may imply a better price for this leg than its own book shows
+    if ((order.orderType === 'MARKET' || order.orderType === 'LIMIT') && order.timeInForce !== 'FOK' && !order.minQuantity && this.matchImpliedIn(order)) {
+      order = getOrder(orderId);
+      if (!order || !this.isWorking(order)) return;
+    }
+    
     // Process different order types
     switch (order.orderType) {
       case 'MARKET':
-        this.processMarketOrder(order, marketData.price);
+        if (this.isSmartRouted(order)) {
+          this.routeSmartOrder(order);
+        } else {
+          this.processMarketOrder(order);
+        }
         break;
       case 'LIMIT':
-        this.processLimitOrder(order, marketData);
+        if (this.isSmartRouted(order)) {
+          this.routeSmartOrder(order);
+        } else {
+          this.processLimitOrder(order);
+        }
         break;
       case 'STOP':
+      case 'STOP_LIMIT':
         this.processStopOrder(order, marketData);
         break;
-      case 'STOP_LIMIT':
-        this.processStopLimitOrder(order, marketData);
+      case 'TRAILING_STOP':
+        this.processTrailingStop(order, marketData);
+        break;
+      case 'ICEBERG':
+        this.processIcebergOrder(order);
+        break;
+      case 'PEGGED':
+        this.processPeggedOrder(order, marketData);
+        break;
+      case 'TWAP':
+      case 'VWAP':
+      case 'POV':
+      case 'IMPLEMENTATION_SHORTFALL':
+        this.startAlgo(order);
         break;
       default:
         console.log(`Order type ${order.orderType} not fully implemented`);
@@ -119,214 +357,1764 @@ export class OrderService {
     }
   }
 
-  private processMarketOrder(order: Order, marketPrice: number): void {
-    const { addExecutionReport, addTrade } = useOrderStore.getState();
-    const { updatePosition } = usePositionStore.getState();
-    const tutorialStore = useTutorialStore.getState();
+  private processMarketOrder(order: Order): void {
+    this.routeToEngine({ ...order, orderType: 'MARKET', price: undefined });
+  }
+
+  private processLimitOrder(order: Order): void {
+    if (!order.price) return;
     
-    // Market orders execute immediately at current market price
-    const fillPrice = order.side === 'BUY' 
-      ? marketPrice * 1.001 // Simulate slippage
-      : marketPrice * 0.999;
+    this.routeToEngine({ ...order, orderType: 'LIMIT' });
     
-    const fillQuantity = order.quantity;
+    const updated = useOrderStore.getState().getOrder(order.id);
+    if (updated && updated.filledQuantity < updated.quantity) {
+      console.log(`Limit order ${order.id} resting in book at ${order.price}`);
+    }
+  }
+
+  private processIcebergOrder(order: Order): void {
+    if (!order.price || !order.displayQuantity) return;
     
-    // Create execution report
-    const executionReport: ExecutionReport = {
-      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      orderId: order.id,
-      execType: 'FILL',
-      execId: `FILL_${order.id}`,
-      lastQty: fillQuantity,
-      lastPx: Math.round(fillPrice * 100) / 100,
-      cumQty: fillQuantity,
-      avgPx: Math.round(fillPrice * 100) / 100,
-      ordStatus: 'FILLED',
-      timestamp: Date.now(),
-    };
+    // Icebergs rest as limit orders that only display one slice at a time
+    this.routeToEngine({ ...order, orderType: 'LIMIT' });
     
-    addExecutionReport(executionReport);
+    console.log(`Iceberg order ${order.id} showing ${order.displayQuantity} of ${order.quantity} at ${order.price}`);
+  }
+
+  private processPeggedOrder(order: Order, marketData: MarketData): void {
+    const price = this.calculatePegPrice(order, marketData);
+    if (!price) {
+      this.rejectOrder(order.id, { code: 'OTHER', text: 'No reference price for peg' });
+      return;
+    }
     
-    // Create trade
-    const trade: Trade = {
-      id: `TRD_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      orderId: order.id,
-      symbol: order.symbol,
-      side: order.side,
-      quantity: fillQuantity,
-      price: Math.round(fillPrice * 100) / 100,
-      timestamp: Date.now(),
-      tradeId: `T_${Date.now()}`,
-    };
+    useOrderStore.getState().updateOrder(order.id, { price });
+    this.routeToEngine({ ...order, orderType: 'LIMIT', price });
     
-    addTrade(trade);
+    console.log(`Pegged order ${order.id} (${order.pegType}) working at ${price}`);
+  }
+
+  private calculatePegPrice(order: Order, marketData: MarketData): number | undefined {
+    const isBuy = order.side === 'BUY';
+    const nbbo = this.getPegNbbo(order, marketData);
+    let reference: number;
     
-    // Track trade execution for tutorial achievements
-    tutorialStore.incrementTradesExecuted();
+    switch (order.pegType) {
+      case 'PRIMARY':
+        // Same side of the NBBO
+        reference = isBuy ? nbbo.bid : nbbo.ask;
+        break;
+      case 'MARKET':
+        // Opposite side of the NBBO
+        reference = isBuy ? nbbo.ask : nbbo.bid;
+        break;
+      case 'MIDPOINT':
+        reference = (nbbo.bid + nbbo.ask) / 2;
+        break;
+      default:
+        return undefined;
+    }
+    
+    if (!reference || reference <= 0) return undefined;
     
-    // Update position
-    const positionQuantity = order.side === 'BUY' ? fillQuantity : -fillQuantity;
-    updatePosition(order.symbol, positionQuantity, fillPrice);
+    // A positive offset moves the peg away from the market
+    const offset = order.pegOffset || 0;
+    const price = isBuy ? reference - offset : reference + offset;
     
-    console.log(`Market order filled: ${order.id} at ${fillPrice}`);
+    // Midpoint pegs may rest between ticks; the others are held to the tick grid
+    if (order.pegType === 'MIDPOINT') {
+      return Math.round(price * 10000) / 10000;
+    }
+    
+    const tickSize = instruments.find(instrument => instrument.symbol === order.symbol)?.tickSize || 0.01;
+    const ticks = isBuy ? Math.floor(price / tickSize + 1e-9) : Math.ceil(price / tickSize - 1e-9);
+    return Math.round(ticks * tickSize * 10000) / 10000;
   }
 
-  private processLimitOrder(order: Order, marketData: any): void {
-    if (!order.price) return;
+  // The consolidated quote across the lit venues, leaving out pegged orders' own quotes: pegs that set the touch
+  // they follow would chase one another across the spread. Until the venues show a two-sided market the feed quote stands in.
+  private getPegNbbo(order: Order, marketData: MarketData): { bid: number; ask: number } {
+    const pegIds = new Set(useOrderStore.getState().orders
+      .filter(peg => peg.symbol === order.symbol && peg.orderType === 'PEGGED' && this.isWorking(peg))
+      .map(peg => peg.id));
+    const bestOther = (levels: MarketByOrderLevel[]) =>
+      levels.find(level => level.orders.some(entry => !pegIds.has(entry.orderId)))?.price || 0;
     
-    // Check if limit order can be filled immediately
-    const canFill = order.side === 'BUY' 
-      ? marketData.ask <= order.price
-      : marketData.bid >= order.price;
+    const quotes = this.getVenueEngines(order.symbol).map(({ engine }) => {
+      const { bids, asks } = engine.getMarketByOrder(order.symbol, pegIds.size + 1);
+      return { bid: bestOther(bids), ask: bestOther(asks) };
+    });
+    const bid = Math.max(0, ...quotes.map(quote => quote.bid));
+    const offers = quotes.filter(quote => quote.ask > 0);
+    const ask = offers.length > 0 ? Math.min(...offers.map(quote => quote.ask)) : 0;
     
-    if (canFill) {
-      const fillPrice = order.side === 'BUY' ? marketData.ask : marketData.bid;
-      this.fillOrder(order, order.quantity, fillPrice);
-    } else {
-      // Order goes to order book (simulated)
-      console.log(`Limit order ${order.id} added to book at ${order.price}`);
-      
-      // Simulate periodic checking for fills
-      setTimeout(() => {
-        if (Math.random() > 0.7) { // 30% chance of fill
-          this.fillOrder(order, order.quantity, order.price);
-        }
-      }, Math.random() * 5000 + 1000);
-    }
+    return bid > 0 && ask > bid ? { bid, ask } : { bid: marketData.bid, ask: marketData.ask };
   }
 
-  private processStopOrder(order: Order, marketData: any): void {
-    if (!order.stopPrice) return;
+  private repricePeggedOrders(): void {
+    const { orders, updateOrder } = useOrderStore.getState();
+    const { getMarketData } = useMarketDataStore.getState();
+    
+    orders
+      .filter(order => order.orderType === 'PEGGED' && this.isWorking(order))
+      .forEach(order => {
+        const marketData = getMarketData(order.symbol);
+        const price = marketData && this.calculatePegPrice(order, marketData);
+        if (!price || price === order.price) return;
+        
+        updateOrder(order.id, { price });
+        const { venue, engine } = this.getVenueEngineFor(order);
+        const result = engine.replaceOrder(order.id, order.symbol, { price });
+        if (result) this.applyMatchResult(result, venue);
+      });
+  }
+
+  private processDarkOrder(order: Order): void {
+    if (!isDarkPoolEligible(order.symbol)) {
+      this.rejectOrder(order.id, { code: 'UNSUPPORTED_ORDER_CHARACTERISTIC', text: 'Dark pool only trades equities' });
+      return;
+    }
+    if (order.orderType !== 'LIMIT' && order.orderType !== 'MARKET') {
+      this.rejectOrder(order.id, { code: 'UNSUPPORTED_ORDER_CHARACTERISTIC', text: 'Dark pool accepts market and limit orders only' });
+      return;
+    }
     
-    // Check if stop is triggered
-    const isTriggered = order.side === 'BUY'
-      ? marketData.price >= order.stopPrice
-      : marketData.price <= order.stopPrice;
+    const result = this.darkPool.addOrder({ ...order, timestamp: Date.now() }, this.getDarkMidpoint(order.symbol));
+    this.applyDarkResult(order.symbol, result);
     
-    if (isTriggered) {
-      // Convert to market order
-      this.processMarketOrder(order, marketData.price);
-    } else {
-      // Monitor for trigger (simplified)
-      console.log(`Stop order ${order.id} monitoring at ${order.stopPrice}`);
+    const updated = useOrderStore.getState().getOrder(order.id);
+    if (updated && this.isWorking(updated)) {
+      console.log(`Dark order ${order.id} resting${order.minQuantity ? ` with minimum quantity ${order.minQuantity}` : ''}`);
     }
   }
 
-  private processStopLimitOrder(order: Order, marketData: any): void {
-    if (!order.stopPrice || !order.price) return;
+  // The pool only crosses against a live two-sided lit market during continuous trading
+  private getDarkMidpoint(symbol: string): number | undefined {
+    const phase = useMarketDataStore.getState().getSessionPhase(symbol);
+    if (phase && phase !== 'CONTINUOUS') return undefined;
     
-    // Check if stop is triggered
-    const isTriggered = order.side === 'BUY'
-      ? marketData.price >= order.stopPrice
-      : marketData.price <= order.stopPrice;
+    const marketData = useMarketDataStore.getState().getMarketData(symbol);
+    if (!marketData || marketData.bid <= 0 || marketData.ask <= marketData.bid) return undefined;
     
-    if (isTriggered) {
-      // Convert to limit order
-      this.processLimitOrder(order, marketData);
-    } else {
-      console.log(`Stop-limit order ${order.id} monitoring at ${order.stopPrice}`);
-    }
+    return Math.round((marketData.bid + marketData.ask) / 2 * 10000) / 10000;
   }
 
-  private fillOrder(order: Order, quantity: number, price: number): void {
-    const { addExecutionReport, addTrade } = useOrderStore.getState();
-    const { updatePosition } = usePositionStore.getState();
-    const tutorialStore = useTutorialStore.getState();
+  private crossDarkPool(symbol: string): void {
+    if (!this.darkPool.hasOrders(symbol)) return;
     
-    const executionReport: ExecutionReport = {
-      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      orderId: order.id,
-      execType: quantity === order.quantity ? 'FILL' : 'PARTIAL_FILL',
-      execId: `FILL_${order.id}_${Date.now()}`,
-      lastQty: quantity,
-      lastPx: Math.round(price * 100) / 100,
-      cumQty: order.filledQuantity + quantity,
-      avgPx: Math.round(price * 100) / 100,
-      ordStatus: quantity === order.quantity ? 'FILLED' : 'PARTIALLY_FILLED',
-      timestamp: Date.now(),
-    };
+    const midpoint = this.getDarkMidpoint(symbol);
+    if (midpoint === undefined) return;
     
-    addExecutionReport(executionReport);
+    this.applyDarkResult(symbol, this.darkPool.cross(symbol, midpoint));
+    this.simulateDarkFlow(symbol, midpoint);
+  }
+
+  // Other participants' blocks arrive now and then as immediate-or-cancel orders against resting client interest
+  private simulateDarkFlow(symbol: string, midpoint: number): void {
+    const resting = this.darkPool.getRestingOrders(symbol);
+    if (resting.length === 0 || Math.random() >= DARK_FLOW_PROBABILITY) return;
     
-    const trade: Trade = {
-      id: `TRD_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      orderId: order.id,
-      symbol: order.symbol,
-      side: order.side,
-      quantity,
-      price: Math.round(price * 100) / 100,
-      timestamp: Date.now(),
-      tradeId: `T_${Date.now()}`,
+    const target = resting[Math.floor(Math.random() * resting.length)];
+    const lotSize = instruments.find(instrument => instrument.symbol === symbol)?.lotSize || 1;
+    const quantity = Math.max(lotSize, Math.round(Math.random() * DARK_FLOW_MAX_SHARES / lotSize) * lotSize);
+    const side: OrderSide = target.side === 'BUY' ? 'SELL' : 'BUY';
+    
+    const contra: Order = {
+      ...this.createLiquidityOrder(symbol, side, midpoint, quantity, DARK_POOL.id),
+      orderType: 'MARKET',
+      price: undefined,
+      timeInForce: 'IOC',
     };
+    this.applyDarkResult(symbol, this.darkPool.addOrder(contra, midpoint));
+  }
+
+  // Dark executions are reported to the tape after the fact, flagged so they can be told apart from lit prints
+  private applyDarkResult(symbol: string, result: MatchResult): void {
+    this.applyMatchResult(result, DARK_POOL);
     
-    addTrade(trade);
+    const { addTick } = useMarketDataStore.getState();
+    result.trades.forEach(trade => {
+      addTick({
+        symbol,
+        price: trade.price,
+        size: trade.quantity,
+        timestamp: trade.timestamp,
+        side: trade.aggressorSide,
+        darkPool: true,
+      });
+    });
+  }
+
+  // Spreads first trade against each other and against their legs' books; what is left rests in the spread book
+  private processSpreadOrder(order: Order): void {
+    const rejectReason = this.validateOrder(order) || this.getSpreadRejectReason(order);
+    if (rejectReason) {
+      this.rejectOrder(order.id, rejectReason);
+      return;
+    }
     
-    // Track trade execution for tutorial achievements
-    tutorialStore.incrementTradesExecuted();
+    this.workSpreadOrder(order.id, true);
     
-    const positionQuantity = order.side === 'BUY' ? quantity : -quantity;
-    updatePosition(order.symbol, positionQuantity, price);
+    const updated = useOrderStore.getState().getOrder(order.id);
+    if (!updated || !this.isWorking(updated)) return;
+    
+    if (updated.timeInForce === 'IOC') {
+      this.cancelOrder(updated.id, CANCEL_REASON_TEXT.IOC_REMAINDER);
+      return;
+    }
     
-    console.log(`Order filled: ${order.id} - ${quantity}@${price}`);
+    this.spreadBook.addOrder(updated);
+    this.publishSpreadBook(updated);
+    console.log(`Spread order ${order.id} resting at net ${order.price}`);
   }
 
-  private validateOrder(order: Order): boolean {
-    // Basic validation
-    if (order.quantity <= 0) return false;
-    if (order.orderType === 'LIMIT' && !order.price) return false;
-    if (order.orderType === 'STOP' && !order.stopPrice) return false;
-    if (order.orderType === 'STOP_LIMIT' && (!order.price || !order.stopPrice)) return false;
+  private getSpreadRejectReason(order: Order): OrderRejection | undefined {
+    const legs = order.legs || [];
+    const legInstruments = legs.map(leg => instruments.find(instrument => instrument.symbol === leg.symbol));
+    if (legInstruments.some(instrument => instrument?.assetClass !== 'OPTIONS')) {
+      return { code: 'UNSUPPORTED_ORDER_CHARACTERISTIC', text: 'Spread legs must be listed options' };
+    }
+    if (new Set(legInstruments.map(instrument => instrument!.underlyingSymbol)).size > 1) {
+      return { code: 'UNSUPPORTED_ORDER_CHARACTERISTIC', text: 'Spread legs must share an underlying' };
+    }
     
-    return true;
+    // Legs execute immediately, so a spread only trades while every leg is in continuous trading
+    if (!['DAY', 'GTC', 'IOC'].includes(order.timeInForce)) {
+      return { code: 'UNSUPPORTED_ORDER_CHARACTERISTIC', text: `Spread orders do not accept ${order.timeInForce}` };
+    }
+    const { getSessionPhase } = useMarketDataStore.getState();
+    const closedLeg = legs.find(leg => {
+      const phase = getSessionPhase(leg.symbol);
+      return phase !== undefined && phase !== 'CONTINUOUS';
+    });
+    if (closedLeg) {
+      return { code: 'EXCHANGE_CLOSED', text: `${closedLeg.symbol} is in ${formatSessionPhase(getSessionPhase(closedLeg.symbol)!)}` };
+    }
+    
+    return undefined;
   }
 
-  private rejectOrder(orderId: string, reason: string): void {
-    const { addExecutionReport } = useOrderStore.getState();
+  // Trades a spread until neither a resting spread nor the legs' books offer a net price within its limit.
+  // Only an arriving spread looks at the spread book; resting spreads were already checked against each other.
+  private workSpreadOrder(orderId: string, crossSpreads: boolean): void {
+    let canCross = crossSpreads;
     
-    const executionReport: ExecutionReport = {
-      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      orderId,
-      execType: 'REJECTED',
-      execId: `REJ_${orderId}`,
-      lastQty: 0,
-      lastPx: 0,
-      cumQty: 0,
-      avgPx: 0,
-      ordStatus: 'REJECTED',
-      timestamp: Date.now(),
+    for (;;) {
+      const order = useOrderStore.getState().getOrder(orderId);
+      if (!order || !this.isWorking(order)) return;
+      
+      const isBuy = order.side === 'BUY';
+      order.legs!.forEach(leg => this.syncLiquidity(leg.symbol));
+      const implied = getImpliedSpreadQuote(order.legs!, symbol => this.getLegQuote(symbol, order.traderId));
+      const impliedPrice = implied && (isBuy ? implied.ask : implied.bid);
+      const impliedSize = implied ? (isBuy ? implied.askSize : implied.bidSize) : 0;
+      const impliedWithin = impliedPrice !== undefined && impliedSize > 0 && (isBuy ? impliedPrice <= order.price! : impliedPrice >= order.price!);
+      
+      // A resting spread at least as good as the legs trades first
+      const contra = canCross ? this.spreadBook.getContras(order)[0] : undefined;
+      if (contra && (!impliedWithin || (isBuy ? contra.price! <= impliedPrice! : contra.price! >= impliedPrice!))) {
+        if (!this.crossSpreadOrders(order, contra)) canCross = false;
+        continue;
+      }
+      
+      if (!impliedWithin) return;
+      if (this.executeSpreadLegs(order, Math.min(order.quantity - order.filledQuantity, impliedSize)) === 0) return;
+    }
+  }
+
+  // The touch of a leg's listing venue as a spread can trade it. A trader's own order at the touch
+  // would stop the leg by self-trade prevention, so only the size queued ahead of it counts.
+  private getLegQuote(symbol: string, traderId?: string): LegQuote | undefined {
+    const { engine } = this.getPrimaryVenueEngine(symbol);
+    const { bids, asks } = engine.getMarketByOrder(symbol, 1);
+    if (!bids[0] || !asks[0]) return undefined;
+    
+    const { getOrder } = useOrderStore.getState();
+    const usableSize = (level: MarketByOrderLevel) => {
+      const own = level.orders.findIndex(entry => traderId !== undefined && getOrder(entry.orderId)?.traderId === traderId);
+      return (own === -1 ? level.orders : level.orders.slice(0, own)).reduce((sum, entry) => sum + entry.quantity, 0);
     };
     
-    addExecutionReport(executionReport);
-    console.log(`Order rejected: ${orderId} - ${reason}`);
+    return { bid: bids[0].price, bidSize: usableSize(bids[0]), ask: asks[0].price, askSize: usableSize(asks[0]) };
   }
 
-  async cancelOrder(orderId: string): Promise<boolean> {
-    const { getOrder, addExecutionReport, cancelOrder } = useOrderStore.getState();
-    
-    const order = getOrder(orderId);
-    if (!order) return false;
+  // The whole spreads every leg's listing book can take at the touch, and the price each leg goes out at.
+  // All legs are sized before any is sent, so they trade in ratio or not at all.
+  private getLegExecutions(spread: Order, legs: OrderLeg[], spreads: number): { spreads: number; prices: Map<string, number> } {
+    const prices = new Map<string, number>();
+    let executable = spreads;
     
-    if (order.status === 'FILLED' || order.status === 'CANCELLED' || order.status === 'REJECTED') {
-      return false;
+    for (const leg of legs) {
+      this.syncLiquidity(leg.symbol);
+      const quote = this.getLegQuote(leg.symbol, spread.traderId);
+      if (!quote) return { spreads: 0, prices };
+      
+      const isBuy = leg.side === 'BUY';
+      executable = Math.min(executable, Math.floor((isBuy ? quote.askSize : quote.bidSize) / leg.ratio));
+      prices.set(leg.symbol, isBuy ? quote.ask : quote.bid);
     }
     
-    const executionReport: ExecutionReport = {
-      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      orderId,
-      execType: 'CANCELLED',
-      execId: `CXL_${orderId}`,
-      lastQty: 0,
-      lastPx: 0,
-      cumQty: order.filledQuantity,
-      avgPx: order.avgFillPrice,
-      ordStatus: 'CANCELLED',
-      timestamp: Date.now(),
-    };
+    return { spreads: Math.max(0, executable), prices };
+  }
+
+  // Each leg executes as an order of its own, tied to the spread, so trades and positions are booked per instrument.
+  // Without a price the leg goes out at market, as unwinds do.
+  private createLegOrder(spread: Order, leg: OrderLeg, quantity: number, price?: number): Order {
+    const { createOrder, getOrder } = useOrderStore.getState();
     
-    addExecutionReport(executionReport);
-    cancelOrder(orderId);
+    const orderId = createOrder({
+      clientOrderId: `${spread.clientOrderId}_${leg.legId}_${this.orderSequence++}`,
+      symbol: leg.symbol,
+      side: leg.side,
+      orderType: price === undefined ? 'MARKET' : 'LIMIT',
+      quantity,
+      price,
+      timeInForce: 'IOC',
+      gatewayType: spread.gatewayType,
+      venue: getPrimaryVenueId(leg.symbol),
+      traderId: spread.traderId,
+      spreadOrderId: spread.id,
+    });
+    
+    this.acknowledgeOrder(orderId);
+    return getOrder(orderId)!;
+  }
+
+  // Sends every leg to its book at the touch; returns the number of spreads the legs completed
+  private executeSpreadLegs(spread: Order, spreads: number): number {
+    const legs = getTradedLegs(spread);
+    const { spreads: executable, prices } = this.getLegExecutions(spread, legs, spreads);
+    if (executable === 0) return 0;
+    
+    const legOrders = legs.map(leg => {
+      const legOrder = this.createLegOrder(spread, leg, executable * leg.ratio, prices.get(leg.symbol)!);
+      this.routeToEngine(legOrder);
+      return { leg, orderId: legOrder.id };
+    });
+    
+    return this.completeSpreadFill(spread, legOrders);
+  }
+
+  // Reports on the spread the whole spreads its legs traded, at the net of the legs' prices
+  private completeSpreadFill(spread: Order, legOrders: Array<{ leg: OrderLeg; orderId: string }>): number {
+    const { getOrder } = useOrderStore.getState();
+    
+    const fills = legOrders.map(({ leg, orderId }) => ({ leg, order: getOrder(orderId)! }));
+    const spreads = Math.min(...fills.map(({ leg, order }) => Math.floor(order.filledQuantity / leg.ratio)));
+    this.unwindExcessLegs(spread, fills, spreads);
+    if (spreads === 0) return 0;
+    
+    const cost = fills.reduce((sum, { leg, order }) =>
+      sum + (leg.side === 'BUY' ? 1 : -1) * leg.ratio * order.avgFillPrice, 0);
+    const netPrice = roundToSpreadTick(spread.side === 'BUY' ? cost : -cost);
+    const venue = this.getPrimaryVenueEngine(fills[0].order.symbol).venue;
+    
+    this.fillParentOrder(spread.id, spreads, netPrice, `T_${Date.now()}_${this.tradeSequence++}`, venue);
+    this.spreadBook.fill(spread.id, spread.symbol, spreads);
+    
+    return spreads;
+  }
+
+  // A leg that traded beyond the whole spreads completed is traded straight back out, so no part of a spread is left open
+  private unwindExcessLegs(spread: Order, fills: Array<{ leg: OrderLeg; order: Order }>, spreads: number): void {
+    fills.forEach(({ leg, order }) => {
+      const excess = order.filledQuantity - spreads * leg.ratio;
+      if (excess <= 0) return;
+      
+      const unwind = this.createLegOrder(spread, { ...leg, side: leg.side === 'BUY' ? 'SELL' : 'BUY' }, excess);
+      this.routeToEngine(unwind);
+    });
+  }
+
+  // Two spread orders trade with each other at the resting order's net price, every leg printing between
+  // the two. Returns false when the net can't be split into leg prices.
+  private crossSpreadOrders(incoming: Order, resting: Order): boolean {
+    const legPrices = this.allocateLegPrices(resting.legs!, resting.price!);
+    if (!legPrices) return false;
     
-    console.log(`Order cancelled: ${orderId}`);
+    const quantity = Math.min(incoming.quantity - incoming.filledQuantity, resting.quantity - resting.filledQuantity);
+    const venue = this.getPrimaryVenueEngine(resting.legs![0].symbol).venue;
+    
+    resting.legs!.forEach(leg => {
+      const price = legPrices.get(leg.symbol)!;
+      const incomingLeg = getTradedLegs(incoming).find(traded => traded.symbol === leg.symbol)!;
+      const restingLeg = getTradedLegs(resting).find(traded => traded.symbol === leg.symbol)!;
+      const incomingOrder = this.createLegOrder(incoming, incomingLeg, quantity * leg.ratio, price);
+      const restingOrder = this.createLegOrder(resting, restingLeg, quantity * leg.ratio, price);
+      
+      const tradeId = `T_${Date.now()}_${this.tradeSequence++}`;
+      this.fillOrder(incomingOrder.id, quantity * leg.ratio, price, tradeId, restingOrder.id, venue, 'TAKER');
+      this.fillOrder(restingOrder.id, quantity * leg.ratio, price, tradeId, incomingOrder.id, venue, 'MAKER');
+    });
+    
+    const tradeId = `T_${Date.now()}_${this.tradeSequence++}`;
+    [incoming, resting].forEach(spread => {
+      this.fillParentOrder(spread.id, quantity, resting.price!, tradeId, venue);
+      this.spreadBook.fill(spread.id, spread.symbol, quantity);
+    });
+    this.publishSpreadBook(resting);
+    
+    console.log(`Spread ${resting.symbol} crossed: ${quantity}@${resting.price} between ${incoming.id} and ${resting.id}`);
     return true;
   }
-}
+
+  // Leg prices that net to the spread price: every leg at its mid except the dearest, which takes up the difference
+  private allocateLegPrices(legs: OrderLeg[], netPrice: number): Map<string, number> | undefined {
+    const { getMarketData } = useMarketDataStore.getState();
+    
+    const mids = legs.map(leg => {
+      const marketData = getMarketData(leg.symbol);
+      return marketData ? roundToSpreadTick((marketData.bid + marketData.ask) / 2) : 0;
+    });
+    if (mids.some(mid => mid <= 0)) return undefined;
+    
+    const balancing = mids.indexOf(Math.max(...mids));
+    const otherCost = legs.reduce((sum, leg, index) =>
+      index === balancing ? sum : sum + (leg.side === 'BUY' ? 1 : -1) * leg.ratio * mids[index], 0);
+    const balancingLeg = legs[balancing];
+    const balancingPrice = roundToSpreadTick((balancingLeg.side === 'BUY' ? netPrice - otherCost : otherCost - netPrice) / balancingLeg.ratio);
+    if (balancingPrice <= 0) return undefined;
+    
+    return new Map(legs.map((leg, index) => [leg.symbol, index === balancing ? balancingPrice : mids[index]]));
+  }
+
+  // An outright order first takes any better price a resting spread implies for this leg. The spread's other
+  // legs go to their books, and this leg trades directly between the outright and the spread.
+  private matchImpliedIn(order: Order): boolean {
+    const { getOrder } = useOrderStore.getState();
+    let traded = false;
+    
+    for (;;) {
+      const outright = getOrder(order.id);
+      if (!outright || !this.isWorking(outright)) break;
+      
+      const isBuy = outright.side === 'BUY';
+      const touch = this.getLegQuote(outright.symbol);
+      const touchPrice = isBuy ? touch?.ask : touch?.bid;
+      
+      const candidates = this.spreadBook.getOrdersWithLeg(outright.symbol)
+        .filter(spread => spread.traderId !== outright.traderId)
+        .map(spread => ({ spread, quote: getImpliedInQuote(spread, outright.symbol, symbol => this.getLegQuote(symbol, spread.traderId)) }))
+        .filter((candidate): candidate is { spread: Order; quote: ImpliedQuote } => {
+          const { quote } = candidate;
+          if (!quote || quote.side === outright.side) return false;
+          if (touchPrice && (isBuy ? quote.price >= touchPrice : quote.price <= touchPrice)) return false;
+          return outright.orderType === 'MARKET' || (isBuy ? quote.price <= outright.price! : quote.price >= outright.price!);
+        })
+        .sort((a, b) => (isBuy ? a.quote.price - b.quote.price : b.quote.price - a.quote.price) || a.spread.timestamp - b.spread.timestamp);
+      if (candidates.length === 0) break;
+      
+      const { spread, quote } = candidates[0];
+      const legs = getTradedLegs(spread);
+      const impliedLeg = legs.find(leg => leg.symbol === outright.symbol)!;
+      const otherLegs = legs.filter(leg => leg !== impliedLeg);
+      const { spreads, prices } = this.getLegExecutions(spread, otherLegs, Math.min(
+        Math.floor((outright.quantity - outright.filledQuantity) / impliedLeg.ratio),
+        Math.floor(quote.quantity / impliedLeg.ratio)
+      ));
+      if (spreads === 0) break;
+      
+      // The other legs trade first; this leg only trades for the spreads they completed
+      const otherOrders = otherLegs.map(leg => {
+        const legOrder = this.createLegOrder(spread, leg, spreads * leg.ratio, prices.get(leg.symbol)!);
+        this.routeToEngine(legOrder);
+        return { leg, orderId: legOrder.id };
+      });
+      const done = Math.min(...otherOrders.map(({ leg, orderId }) => Math.floor(getOrder(orderId)!.filledQuantity / leg.ratio)));
+      if (done === 0) {
+        this.completeSpreadFill(spread, otherOrders);
+        break;
+      }
+      
+      const venue = this.getPrimaryVenueEngine(outright.symbol).venue;
+      const tradeId = `T_${Date.now()}_${this.tradeSequence++}`;
+      const impliedOrder = this.createLegOrder(spread, impliedLeg, done * impliedLeg.ratio, quote.price);
+      this.fillOrder(outright.id, done * impliedLeg.ratio, quote.price, tradeId, impliedOrder.id, venue, 'TAKER');
+      this.fillOrder(impliedOrder.id, done * impliedLeg.ratio, quote.price, tradeId, outright.id, venue, 'MAKER');
+      traded = true;
+      
+      this.completeSpreadFill(spread, [...otherOrders, { leg: impliedLeg, orderId: impliedOrder.id }]);
+      this.publishSpreadBook(spread);
+    }
+    
+    return traded;
+  }
+
+  // Resting spreads trade against their legs whenever the legs' books move
+  private workRestingSpreads(): void {
+    if (this.workingSpreads) return;
+    this.workingSpreads = true;
+    
+    this.spreadBook.getSymbols().forEach(symbol => {
+      const resting = this.spreadBook.getRestingOrders(symbol);
+      resting.forEach(order => this.workSpreadOrder(order.id, false));
+      this.publishSpreadBook(resting[0]);
+    });
+    
+    this.workingSpreads = false;
+  }
+
+  // A spread's resting orders beside the net prices its legs imply, and the best outright price its orders imply for each leg
+  private publishSpreadBook(spread: Order): void {
+    const legs = spread.legs!;
+    const { bids, asks } = this.spreadBook.getLevels(spread.symbol);
+    const implied = getImpliedSpreadQuote(legs, symbol => this.getLegQuote(symbol));
+    const resting = this.spreadBook.getRestingOrders(spread.symbol);
+    
+    const impliedIn: ImpliedQuote[] = [];
+    legs.forEach(leg => {
+      (['BUY', 'SELL'] as OrderSide[]).forEach(side => {
+        const best = resting
+          .map(order => getImpliedInQuote(order, leg.symbol, symbol => this.getLegQuote(symbol, order.traderId)))
+          .filter((quote): quote is ImpliedQuote => quote !== undefined && quote.side === side)
+          .sort((a, b) => side === 'BUY' ? b.price - a.price : a.price - b.price)[0];
+        if (best) impliedIn.push(best);
+      });
+    });
+    
+    useMarketDataStore.getState().updateSpreadBook(spread.symbol, {
+      symbol: spread.symbol,
+      legs,
+      bids,
+      asks,
+      impliedBid: implied?.bid,
+      impliedBidSize: implied?.bidSize || 0,
+      impliedAsk: implied?.ask,
+      impliedAskSize: implied?.askSize || 0,
+      impliedIn,
+      timestamp: Date.now(),
+    });
+  }
+
+  private startAlgo(order: Order): void {
+    const handler = this.algoHandlers.get(order.orderType);
+    if (!handler) {
+      this.rejectOrder(order.id, { code: 'UNSUPPORTED_ORDER_CHARACTERISTIC', text: `${order.orderType} algorithm is not available` });
+      return;
+    }
+    
+    handler(order);
+    console.log(`${order.orderType} order ${order.id} handed to the algo engine`);
+  }
+
+  private isAlgoOrder(order: Order): boolean {
+    return ALGO_ORDER_TYPES.includes(order.orderType);
+  }
+
+  // Sends one child of an algo parent; the child is routed and matched like any other order
+  submitChildOrder(parentId: string, child: {
+    quantity: number;
+    orderType: OrderType;
+    price?: number;
+    timeInForce: TimeInForce;
+    venue?: string;
+  }): string | undefined {
+    const parent = useOrderStore.getState().getOrder(parentId);
+    if (!parent || !this.isWorking(parent)) return undefined;
+    
+    return this.sendChildOrder(parent, child.venue || SMART_ROUTE, child.quantity, child.orderType, child.price, child.timeInForce);
+  }
+
+  private processStopOrder(order: Order, marketData: MarketData): void {
+    if (!order.stopPrice) return;
+    if (order.orderType === 'STOP_LIMIT' && !order.price) return;
+    
+    this.stopTriggerEngine.addStop({ ...order });
+    console.log(`Stop order ${order.id} monitoring ${order.triggerType || 'LAST'} at ${order.stopPrice}`);
+    
+    // A stop the market is already through triggers straight away
+    this.triggerStopOrders(order.symbol, marketData);
+  }
+
+  private processTrailingStop(order: Order, marketData: MarketData): void {
+    // The trail starts from the current trigger price, or from where it had got to before a reload
+    const prices = { last: marketData.price, bid: marketData.bid, ask: marketData.ask };
+    const trailWatermark = order.trailWatermark ?? this.stopTriggerEngine.getTriggerPrice(order, prices);
+    const stopPrice = order.stopPrice ?? this.getTrailingStopPrice(order, trailWatermark);
+    
+    useOrderStore.getState().updateOrder(order.id, { trailWatermark, stopPrice });
+    this.processStopOrder({ ...order, trailWatermark, stopPrice }, marketData);
+  }
+  
+  private getTrailingStopPrice(order: Order, watermark: number): number {
+    const amount = order.trailAmount || 0;
+    const distance = order.trailType === 'PERCENTAGE' ? watermark * amount / 100
+      : order.trailType === 'ATR' ? amount * this.getAverageTrueRange(order.symbol)
+      : amount;
+    
+    // Sell stops sit below the watermark and buy stops above, rounded away from it onto the tick grid
+    const isSell = order.side === 'SELL';
+    const price = isSell ? watermark - distance : watermark + distance;
+    const tickSize = instruments.find(instrument => instrument.symbol === order.symbol)?.tickSize || 0.01;
+    const ticks = isSell ? Math.floor(price / tickSize + 1e-9) : Math.ceil(price / tickSize - 1e-9);
+    return Math.round(ticks * tickSize * 10000) / 10000;
+  }
+  
+  private getAverageTrueRange(symbol: string): number {
+    const { getTicks, getMarketData } = useMarketDataStore.getState();
+    
+    // Group the tape into fixed-length bars, oldest first
+    const bars = new Map<number, { high: number; low: number; close: number }>();
+    getTicks(symbol).forEach(tick => {
+      const start = Math.floor(tick.timestamp / ATR_BAR_MS);
+      const bar = bars.get(start);
+      if (bar) {
+        bar.high = Math.max(bar.high, tick.price);
+        bar.low = Math.min(bar.low, tick.price);
+        bar.close = tick.price;
+      } else {
+        bars.set(start, { high: tick.price, low: tick.price, close: tick.price });
+      }
+    });
+    
+    // Until the tape has built up a range, the session's high-low stands in
+    const data = getMarketData(symbol);
+    return calculateATR(Array.from(bars.values()), ATR_PERIODS) || (data ? data.high - data.low : 0);
+  }
+  
+  private triggerStopOrders(symbol: string, marketData: MarketData): void {
+    // Stops only elect against prices from continuous trading
+    const phase = this.sessionPhases.get(symbol);
+    if (phase && phase !== 'CONTINUOUS') return;
+    
+    const prices = { last: marketData.price, bid: marketData.bid, ask: marketData.ask };
+    
+    // Trailing stops follow the market first; the watermark is kept on the order so it survives a reload
+    this.stopTriggerEngine.trail(symbol, prices, (order, watermark) => this.getTrailingStopPrice(order, watermark))
+      .forEach(({ id, trailWatermark, stopPrice }) => useOrderStore.getState().updateOrder(id, { trailWatermark, stopPrice }));
+    
+    this.stopTriggerEngine.evaluate(symbol, prices).forEach(stop => {
+      const order = useOrderStore.getState().getOrder(stop.id);
+      if (!order || !this.isWorking(order)) return;
+      
+      const triggerPrice = this.stopTriggerEngine.getTriggerPrice(order, prices);
+      const executionReport: ExecutionReport = {
+        id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        orderId: order.id,
+        execType: 'TRIGGERED',
+        execId: `TRG_${order.id}`,
+        lastQty: 0,
+        lastPx: 0,
+        cumQty: order.filledQuantity,
+        avgPx: order.avgFillPrice,
+        ordStatus: order.status,
+        text: `Stop triggered: ${order.triggerType || 'LAST'} ${triggerPrice}`,
+        timestamp: Date.now(),
+      };
+      
+      useOrderStore.getState().addExecutionReport(executionReport);
+      console.log(`Stop order ${order.id} triggered at ${triggerPrice}`);
+      
+      // Stops and trailing stops become market orders, stop-limits become limit orders
+      if (order.orderType === 'STOP' || order.orderType === 'TRAILING_STOP') {
+        this.processMarketOrder(order);
+      } else {
+        this.processLimitOrder(order);
+      }
+    });
+  }
+
+  private isStopTriggered(order: Order): boolean {
+    return order.executionReports.some(report => report.execType === 'TRIGGERED');
+  }
+
+  private routeToEngine(order: Order): void {
+    // Call auctions run on the listing venue only, so every order joins its book meanwhile
+    const primary = this.getPrimaryVenueEngine(order.symbol);
+    const { venue, engine } = this.isInAuction(order.symbol) ? primary : this.getVenueEngineFor(order);
+    if (order.venue !== venue.id) {
+      useOrderStore.getState().updateOrder(order.id, { venue: venue.id });
+    }
+    
+    // Make sure the book reflects current market liquidity before the order arrives
+    this.syncLiquidity(order.symbol);
+    
+    // The engine keeps its own copy; time priority starts on arrival at the engine
+    const result = engine.addOrder({ ...order, venue: venue.id, timestamp: Date.now() });
+    this.applyMatchResult(result, venue);
+    this.publishAuction(order.symbol);
+    this.publishBooks(order.symbol);
+  }
+
+  private isSmartRouted(order: Order): boolean {
+    return order.venue === SMART_ROUTE && getVenuesForSymbol(order.symbol).length > 1;
+  }
+
+  private routeSmartOrder(order: Order): void {
+    // Only the listing venue trades during a call auction, so there is nothing to split
+    if (this.isInAuction(order.symbol)) {
+      if (order.orderType === 'MARKET') {
+        this.processMarketOrder(order);
+      } else {
+        this.processLimitOrder(order);
+      }
+      return;
+    }
+    
+    this.syncLiquidity(order.symbol);
+    const liquidity = this.getVenueEngines(order.symbol).map(({ venue, engine }) => {
+      const { bids, asks } = engine.getOrderBook(order.symbol);
+      return { venue, levels: order.side === 'BUY' ? asks : bids };
+    });
+    const plan = this.smartOrderRouter.plan(order, liquidity);
+    
+    // Splitting a fill-or-kill could leave it part filled, so it goes whole to the venue offering most
+    if (order.timeInForce === 'FOK') {
+      const [largest] = [...plan.slices].sort((a, b) => b.quantity - a.quantity);
+      const venueId = largest?.venueId || getPrimaryVenueId(order.symbol);
+      this.sendChildOrder(order, venueId, order.quantity, order.orderType, order.price, 'FOK');
+      console.log(`Smart routed ${order.id}: ${order.quantity} FOK to ${venueId}`);
+      return;
+    }
+    
+    // Visible liquidity is swept with immediate-or-cancel children; the rest is posted once they are done
+    this.postVenues.set(order.id, plan.postVenueId);
+    plan.slices.forEach(slice => {
+      this.sendChildOrder(order, slice.venueId, slice.quantity, 'LIMIT', slice.price, 'IOC');
+    });
+    
+    const routes = plan.slices.map(slice => `${slice.quantity}@${slice.venueId}`).join(', ');
+    console.log(`Smart routed ${order.id}: ${routes || 'no marketable liquidity'}${plan.remainder > 0 ? `, ${plan.remainder} remaining` : ''}`);
+    
+    if (plan.slices.length === 0) {
+      this.onChildOrderDone(order.id);
+    }
+  }
+
+  private sendChildOrder(
+    parent: Order,
+    venueId: string,
+    quantity: number,
+    orderType: OrderType,
+    price: number | undefined,
+    timeInForce: TimeInForce
+  ): string {
+    const { createOrder, updateOrder, getOrder } = useOrderStore.getState();
+    const childOrderIds = getOrder(parent.id)?.childOrderIds || [];
+    
+    const childId = createOrder({
+      clientOrderId: `${parent.clientOrderId}_${childOrderIds.length + 1}`,
+      symbol: parent.symbol,
+      side: parent.side,
+      orderType,
+      quantity,
+      price,
+      timeInForce,
+      expireDate: parent.expireDate,
+      gatewayType: parent.gatewayType,
+      venue: venueId,
+      traderId: parent.traderId,
+      parentOrderId: parent.id,
+    });
+    
+    updateOrder(parent.id, { childOrderIds: [...childOrderIds, childId] });
+    this.acknowledgeOrder(childId);
+    
+    // The child reaches its venue after that venue's latency; the book may have moved by then
+    const latencyMs = this.getVenueEngines(parent.symbol).find(({ venue }) => venue.id === venueId)?.venue.latencyMs || 0;
+    setTimeout(() => {
+      this.processOrder(childId);
+      this.onChildOrderDone(parent.id);
+    }, latencyMs);
+    
+    return childId;
+  }
+
+  // Called whenever a child may have finished; once none are working the parent posts or closes out
+  private onChildOrderDone(parentId: string): void {
+    const { getOrder } = useOrderStore.getState();
+    
+    // Algo parents decide for themselves when the next child goes out
+    const parent = getOrder(parentId);
+    if (!parent || !this.isWorking(parent) || this.isAlgoOrder(parent)) return;
+    
+    const children = (parent.childOrderIds || [])
+      .map(id => getOrder(id))
+      .filter((child): child is Order => child !== undefined);
+    if (children.some(child => this.isWorking(child))) return;
+    
+    const remaining = parent.quantity - parent.filledQuantity;
+    if (remaining <= 0) return;
+    
+    const postVenueId = this.postVenues.get(parentId);
+    this.postVenues.delete(parentId);
+    
+    if (postVenueId === undefined || parent.timeInForce === 'IOC' || parent.timeInForce === 'FOK') {
+      const lastCancel = children[children.length - 1]?.executionReports
+        .find(report => report.execType === 'CANCELLED' || report.execType === 'REJECTED');
+      const reason = parent.timeInForce === 'IOC'
+        ? CANCEL_REASON_TEXT.IOC_REMAINDER
+        : parent.timeInForce === 'FOK' ? CANCEL_REASON_TEXT.FOK_UNFILLED : lastCancel?.text;
+      this.cancelOrder(parentId, reason);
+      return;
+    }
+    
+    // A market remainder works on the listing venue; a limit remainder rests where it earns the best rebate
+    if (parent.orderType === 'MARKET') {
+      this.sendChildOrder(parent, getPrimaryVenueId(parent.symbol), remaining, 'MARKET', undefined, parent.timeInForce);
+    } else {
+      this.sendChildOrder(parent, postVenueId, remaining, 'LIMIT', parent.price, parent.timeInForce);
+    }
+  }
+
+  private isRoutedParent(order: Order): boolean {
+    return (order.childOrderIds?.length || 0) > 0;
+  }
+
+  private applyMatchResult(result: MatchResult, venue: Venue): void {
+    const cancelledIds = new Set(result.cancelledOrders.map(({ order }) => order.id));
+    
+    // Quantity decrements from self-trade prevention are restated before any fills
+    result.updatedOrders.forEach(order => {
+      const stored = useOrderStore.getState().getOrder(order.id);
+      if (stored && !cancelledIds.has(order.id) && stored.quantity !== order.quantity) {
+        this.restateOrder(stored, order.quantity, 'Self-trade prevention: quantity decremented');
+      }
+    });
+    
+    result.trades.forEach(trade => {
+      const tradeId = `T_${trade.timestamp}_${this.tradeSequence++}`;
+      const liquidity = (side: OrderSide): LiquidityIndicator | undefined =>
+        trade.aggressorSide && (trade.aggressorSide === side ? 'TAKER' : 'MAKER');
+      this.fillOrder(trade.buyOrderId, trade.quantity, trade.price, tradeId, trade.sellOrderId, venue, liquidity('BUY'));
+      this.fillOrder(trade.sellOrderId, trade.quantity, trade.price, tradeId, trade.buyOrderId, venue, liquidity('SELL'));
+    });
+    
+    result.updatedOrders.forEach(order => {
+      const { getOrder, updateOrder } = useOrderStore.getState();
+      const stored = getOrder(order.id);
+      if (!stored) return;
+      
+      // A market-to-limit remainder keeps working at its converted price
+      if ((stored.orderType === 'MARKET' || stored.orderType === 'STOP' || stored.orderType === 'TRAILING_STOP') && order.orderType === 'LIMIT') {
+        updateOrder(order.id, { orderType: 'LIMIT', price: order.price });
+        console.log(`Order ${order.id} remainder converted to limit at ${order.price}`);
+      }
+      
+      // Icebergs show their current slice in the blotter
+      if (order.visibleQuantity !== undefined && stored.visibleQuantity !== order.visibleQuantity) {
+        updateOrder(order.id, { visibleQuantity: order.visibleQuantity });
+      }
+    });
+    
+    // Orders the engine took out of the book carry the reason through to the blotter
+    result.cancelledOrders.forEach(({ order, reason }) => {
+      if (useOrderStore.getState().getOrder(order.id)) {
+        this.cancelOrder(order.id, CANCEL_REASON_TEXT[reason]);
+      }
+    });
+  }
+
+  private restateOrder(order: Order, quantity: number, text: string): void {
+    const { updateOrder, addExecutionReport } = useOrderStore.getState();
+    
+    updateOrder(order.id, { quantity });
+    
+    const executionReport: ExecutionReport = {
+      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      orderId: order.id,
+      execType: 'RESTATED',
+      execId: `RST_${order.id}_${Date.now()}`,
+      lastQty: 0,
+      lastPx: 0,
+      cumQty: order.filledQuantity,
+      avgPx: order.avgFillPrice,
+      ordStatus: order.status,
+      text,
+      timestamp: Date.now(),
+    };
+    
+    addExecutionReport(executionReport);
+    console.log(`Order restated: ${order.id} - quantity ${order.quantity} -> ${quantity}`);
+  }
+
+  private getSessionRejectReason(order: Order, phase?: SessionPhase): OrderRejection | undefined {
+    const immediate = order.timeInForce === 'IOC' || order.timeInForce === 'FOK';
+    
+    switch (phase) {
+      case 'PRE_OPEN':
+      case 'OPENING_AUCTION':
+      case 'CLOSING_AUCTION':
+      case 'HALTED':
+        // There is nothing to trade against immediately outside continuous trading
+        return immediate
+          ? { code: 'EXCHANGE_CLOSED', text: `${order.timeInForce} orders are not accepted during ${formatSessionPhase(phase)}` }
+          : undefined;
+      case 'POST_CLOSE':
+        // Only orders that outlive the session can wait for the next one
+        return ['GTC', 'GTD', 'GTT', 'ATO'].includes(order.timeInForce) && order.orderType !== 'MARKET'
+          ? undefined
+          : { code: 'EXCHANGE_CLOSED', text: 'Market is closed' };
+      default:
+        return undefined;
+    }
+  }
+
+  private shouldQueueForSession(phase?: SessionPhase): boolean {
+    return phase === 'PRE_OPEN' || phase === 'POST_CLOSE';
+  }
+
+  private queueOrder(order: Order, phase: SessionPhase): void {
+    const queued = this.queuedOrders.get(order.symbol) || [];
+    if (!queued.includes(order.id)) {
+      this.queuedOrders.set(order.symbol, [...queued, order.id]);
+    }
+    console.log(`Order ${order.id} queued during ${formatSessionPhase(phase)}`);
+  }
+
+  private releaseQueuedOrders(symbol: string): void {
+    const queued = this.queuedOrders.get(symbol) || [];
+    this.queuedOrders.delete(symbol);
+    
+    // Each order is admitted again against the new phase
+    queued.forEach(orderId => this.processOrder(orderId));
+  }
+
+  private handleSessionPhases(phases: Map<string, SessionPhase>): void {
+    phases.forEach((phase, symbol) => {
+      const previous = this.sessionPhases.get(symbol);
+      if (phase === previous) return;
+      
+      this.sessionPhases.set(symbol, phase);
+      this.onSessionPhaseChange(symbol, phase, previous);
+    });
+  }
+
+  private onSessionPhaseChange(symbol: string, phase: SessionPhase, previous?: SessionPhase): void {
+    // Leaving a call period uncrosses it; entering one starts collecting orders.
+    // A halt suspends any auction already running and reopens through it.
+    const leavingCall = previous === 'OPENING_AUCTION' || previous === 'CLOSING_AUCTION' || previous === 'HALTED';
+    if (leavingCall && phase !== 'HALTED' && this.isInAuction(symbol)) {
+      this.uncrossAuction(symbol);
+    }
+    if (phase === 'HALTED' && !this.isInAuction(symbol)) {
+      this.startAuction(symbol, 'REOPENING');
+    }
+    if (phase === 'OPENING_AUCTION' && !this.isInAuction(symbol)) {
+      this.startAuction(symbol, 'OPENING');
+    }
+    if (phase === 'CLOSING_AUCTION' && !this.isInAuction(symbol)) {
+      this.startAuction(symbol, 'CLOSING');
+    }
+    
+    if (phase !== 'PRE_OPEN' && phase !== 'POST_CLOSE') {
+      this.releaseQueuedOrders(symbol);
+    }
+    
+    if (previous) {
+      console.log(`Session ${symbol}: ${formatSessionPhase(previous)} -> ${formatSessionPhase(phase)}`);
+    }
+  }
+
+  startAuction(symbol: string, auctionType: AuctionType): void {
+    const marketData = useMarketDataStore.getState().getMarketData(symbol);
+    
+    this.syncLiquidity(symbol);
+    this.getPrimaryVenueEngine(symbol).engine.startAuction(symbol, auctionType, marketData?.price);
+    this.publishAuction(symbol);
+    
+    console.log(`${auctionType} auction started for ${symbol}`);
+  }
+
+  uncrossAuction(symbol: string): void {
+    const { clearAuction, addTick } = useMarketDataStore.getState();
+    
+    const { venue, engine } = this.getPrimaryVenueEngine(symbol);
+    const result = engine.uncross(symbol);
+    clearAuction(symbol);
+    this.applyMatchResult(result, venue);
+    this.publishBooks(symbol);
+    
+    // The uncrossing is printed to the tape as a single auction trade
+    const volume = result.trades.reduce((sum, trade) => sum + trade.quantity, 0);
+    if (volume > 0) {
+      addTick({
+        symbol,
+        price: result.trades[0].price,
+        size: volume,
+        timestamp: Date.now(),
+      });
+    }
+    
+    console.log(`Auction uncrossed for ${symbol}: ${volume} shares`);
+  }
+
+  private isInAuction(symbol: string): boolean {
+    return this.getPrimaryVenueEngine(symbol).engine.isInAuction(symbol);
+  }
+
+  private publishAuction(symbol: string): void {
+    const auction = this.getPrimaryVenueEngine(symbol).engine.getIndicativeAuction(symbol);
+    if (auction) {
+      useMarketDataStore.getState().updateAuction(symbol, auction);
+    }
+  }
+
+  // Publishes the consolidated quote and each venue's order-by-order book
+  private publishBooks(symbol: string): void {
+    this.publishNbbo(symbol);
+    this.publishMarketByOrder(symbol);
+  }
+
+  private publishMarketByOrder(symbol: string): void {
+    const { updateMarketByOrder, addBookEvents } = useMarketDataStore.getState();
+    
+    const events = this.pendingBookEvents.get(symbol) || [];
+    this.pendingBookEvents.delete(symbol);
+    if (events.length > 0) {
+      addBookEvents(symbol, events);
+    }
+    
+    updateMarketByOrder(symbol, this.getVenueEngines(symbol).map(({ venue, engine }) => ({
+      ...engine.getMarketByOrder(symbol),
+      venue: venue.id,
+    })));
+  }
+
+  // Consolidated best bid and offer across every venue the symbol trades on
+  private publishNbbo(symbol: string): void {
+    const quotes: VenueQuote[] = this.getVenueEngines(symbol).map(({ venue, engine }) => {
+      const { bids, asks } = engine.getOrderBook(symbol);
+      return {
+        venue: venue.id,
+        bid: bids[0]?.price || 0,
+        bidSize: bids[0]?.quantity || 0,
+        ask: asks[0]?.price || 0,
+        askSize: asks[0]?.quantity || 0,
+      };
+    });
+    
+    const bid = Math.max(0, ...quotes.map(quote => quote.bid));
+    const offers = quotes.filter(quote => quote.ask > 0);
+    const ask = offers.length > 0 ? Math.min(...offers.map(quote => quote.ask)) : 0;
+    const atBid = quotes.filter(quote => bid > 0 && quote.bid === bid);
+    const atAsk = offers.filter(quote => quote.ask === ask);
+    
+    useMarketDataStore.getState().updateNbbo(symbol, {
+      symbol,
+      bid,
+      bidSize: atBid.reduce((sum, quote) => sum + quote.bidSize, 0),
+      bidVenues: atBid.map(quote => quote.venue),
+      ask,
+      askSize: atAsk.reduce((sum, quote) => sum + quote.askSize, 0),
+      askVenues: atAsk.map(quote => quote.venue),
+      quotes,
+      timestamp: Date.now(),
+    });
+  }
+
+  private getVenueEngines(symbol: string): VenueEngine[] {
+    return getVenuesForSymbol(symbol).map(venue => {
+      let venueEngine = this.venueEngines.get(venue.id);
+      if (!venueEngine) {
+        venueEngine = { venue, engine: this.createEngine(venue), liquidityOrders: new Map() };
+        this.venueEngines.set(venue.id, venueEngine);
+      }
+      return venueEngine;
+    });
+  }
+
+  private getPrimaryVenueEngine(symbol: string): VenueEngine {
+    const venueEngines = this.getVenueEngines(symbol);
+    const primaryId = getPrimaryVenueId(symbol);
+    return venueEngines.find(({ venue }) => venue.id === primaryId) || venueEngines[0];
+  }
+
+  // Orders without a venue of their own, including smart orders that were not split, live on the listing venue
+  private getVenueEngineFor(order: Order): VenueEngine {
+    return this.getVenueEngines(order.symbol).find(({ venue }) => venue.id === order.venue)
+      || this.getPrimaryVenueEngine(order.symbol);
+  }
+
+  private createEngine(venue: Venue): MatchingEngine {
+    const engine = new MatchingEngine(this.engineConfig);
+    
+    // Book events are held until the next publish so a sweep reaches the store as one update
+    engine.onBookEvent(event => {
+      const pending = this.pendingBookEvents.get(event.symbol) || [];
+      pending.push({ ...event, venue: venue.id });
+      this.pendingBookEvents.set(event.symbol, pending);
+    });
+    
+    // Futures books may allocate pro-rata instead of strict price-time
+    instruments.forEach(instrument => {
+      if (!instrument.matchingAlgorithm) return;
+      engine.setAllocation(instrument.symbol, {
+        algorithm: instrument.matchingAlgorithm,
+        lmmTraderId: instrument.leadMarketMaker?.traderId,
+        lmmAllocationPercent: instrument.leadMarketMaker?.allocationPercent,
+      });
+    });
+    
+    return engine;
+  }
+
+  private syncLiquidity(symbol: string): void {
+    const orderBook = useMarketDataStore.getState().getOrderBook(symbol);
+    if (!orderBook) return;
+    
+    // Target quantity per price level, keeping the two sides from crossing each other
+    const bidTargets = this.aggregateLevels(orderBook.bids);
+    const bestBid = Math.max(...Array.from(bidTargets.keys()));
+    const askTargets = this.aggregateLevels(orderBook.asks.filter(level => level.price > bestBid));
+    
+    const venueEngines = this.getVenueEngines(symbol);
+    const venues = venueEngines.map(({ venue }) => venue);
+    const primary = this.getPrimaryVenueEngine(symbol);
+    const clientOrders = useOrderStore.getState().orders.filter(order =>
+      order.symbol === symbol && order.price && order.venue !== SMART_ROUTE && order.venue !== DARK_POOL.id && this.isWorking(order) &&
+      RESTING_ORDER_TYPES.includes(order.orderType) && !this.isRoutedParent(order)
+    );
+    
+    venueEngines.forEach(venueEngine => {
+      // While the listing venue runs a call auction the other venues stand still
+      if (venueEngine !== primary && this.isInAuction(symbol)) return;
+      
+      // Liquidity that crosses a client order on another venue would have traded with it there
+      const elsewhere = clientOrders.filter(order => this.getVenueEngineFor(order) !== venueEngine);
+      const bestBidElsewhere = Math.max(0, ...elsewhere.filter(order => order.side === 'BUY').map(order => order.price!));
+      const bestAskElsewhere = Math.min(Infinity, ...elsewhere.filter(order => order.side === 'SELL').map(order => order.price!));
+      
+      const venueBids = this.splitTargets(bidTargets, venueEngine.venue, venues);
+      const venueAsks = this.splitTargets(askTargets, venueEngine.venue, venues);
+      
+      this.syncVenueLiquidity(
+        venueEngine,
+        symbol,
+        new Map(Array.from(venueBids).filter(([price]) => price < bestAskElsewhere)),
+        new Map(Array.from(venueAsks).filter(([price]) => price > bestBidElsewhere))
+      );
+    });
+    
+    this.publishAuction(symbol);
+    this.publishBooks(symbol);
+  }
+
+  private syncVenueLiquidity(
+    venueEngine: VenueEngine,
+    symbol: string,
+    bidTargets: Map<number, { quantity: number; orderCount: number }>,
+    askTargets: Map<number, { quantity: number; orderCount: number }>
+  ): void {
+    const { venue, engine, liquidityOrders } = venueEngine;
+    
+    const resting = (liquidityOrders.get(symbol) || [])
+      .filter(order => order.filledQuantity < order.quantity);
+    const lmmTraderId = instruments.find(instrument => instrument.symbol === symbol)?.leadMarketMaker?.traderId;
+    
+    // Withdraw liquidity from price levels that have left the book
+    const kept = resting.filter(order => {
+      const targets = order.side === 'BUY' ? bidTargets : askTargets;
+      if (targets.has(order.price!)) return true;
+      engine.cancelOrder(order.id, symbol);
+      return false;
+    });
+    
+    const added: Order[] = [];
+    const results: MatchResult[] = [];
+    
+    ([['BUY', bidTargets], ['SELL', askTargets]] as const).forEach(([side, targets]) => {
+      targets.forEach(({ quantity, orderCount }, price) => {
+        const atLevel = kept.filter(order => order.side === side && order.price === price);
+        let available = atLevel.reduce((sum, order) => sum + order.quantity - order.filledQuantity, 0);
+        
+        // Shrinking levels lose their most recent orders first
+        while (available > quantity && atLevel.length > 0) {
+          const newest = atLevel.pop()!;
+          engine.cancelOrder(newest.id, symbol);
+          kept.splice(kept.indexOf(newest), 1);
+          available -= newest.quantity - newest.filledQuantity;
+        }
+        
+        // New liquidity joins the back of the queue
+        const shortfall = quantity - available;
+        if (shortfall <= 0) return;
+        
+        // The lead market maker quotes every level, behind the order that takes top-order priority
+        const lmmQuoting = lmmTraderId !== undefined && !atLevel.some(order => order.traderId === lmmTraderId);
+        const count = atLevel.length === 0 ? Math.max(1, Math.min(Math.max(orderCount, lmmQuoting ? 2 : 1), shortfall)) : 1;
+        const sliceSize = Math.floor(shortfall / count);
+        
+        for (let i = 0; i < count; i++) {
+          const sliceQuantity = i === count - 1 ? shortfall - sliceSize * (count - 1) : sliceSize;
+          const traderId = lmmQuoting && i === count - 1 && (atLevel.length > 0 || count > 1) ? lmmTraderId : undefined;
+          const liquidityOrder = this.createLiquidityOrder(symbol, side, price, sliceQuantity, venue.id, traderId);
+          added.push(liquidityOrder);
+          results.push(engine.addOrder(liquidityOrder));
+        }
+      });
+    });
+    
+    liquidityOrders.set(symbol, [...kept, ...added]);
+    results.forEach(result => this.applyMatchResult(result, venue));
+  }
+
+  // A venue's slice of each consolidated level. Shares wobble from level to level,
+  // so no venue is deepest everywhere and routing has real choices to make.
+  private splitTargets(
+    targets: Map<number, { quantity: number; orderCount: number }>,
+    venue: Venue,
+    venues: Venue[]
+  ): Map<number, { quantity: number; orderCount: number }> {
+    if (venues.length === 1) return targets;
+    
+    const split = new Map<number, { quantity: number; orderCount: number }>();
+    
+    targets.forEach(({ quantity, orderCount }, price) => {
+      const totalWeight = venues.reduce((sum, other) => sum + this.getVenueWeight(other, price), 0);
+      const share = totalWeight > 0 ? this.getVenueWeight(venue, price) / totalWeight : 0;
+      const venueQuantity = Math.floor(quantity * share);
+      if (venueQuantity <= 0) return;
+      
+      split.set(price, {
+        quantity: venueQuantity,
+        orderCount: Math.max(1, Math.round(orderCount * share)),
+      });
+    });
+    
+    return split;
+  }
+
+  private getVenueWeight(venue: Venue, price: number): number {
+    // Deterministic per venue and price, so refreshing the book does not churn the queues
+    const key = `${venue.id}:${price}`;
+    let hash = 0;
+    for (let i = 0; i < key.length; i++) {
+      hash = (hash * 31 + key.charCodeAt(i)) | 0;
+    }
+    return venue.liquidityShare * (Math.abs(hash) % 1000) / 500;
+  }
+
+  private aggregateLevels(levels: OrderBookLevel[]): Map<number, { quantity: number; orderCount: number }> {
+    const targets = new Map<number, { quantity: number; orderCount: number }>();
+    
+    levels.forEach(level => {
+      if (level.price <= 0 || level.quantity <= 0) return;
+      const existing = targets.get(level.price) || { quantity: 0, orderCount: 0 };
+      targets.set(level.price, {
+        quantity: existing.quantity + Math.floor(level.quantity),
+        orderCount: existing.orderCount + level.orderCount,
+      });
+    });
+    
+    return targets;
+  }
+
+  private createLiquidityOrder(symbol: string, side: OrderSide, price: number, quantity: number, venue: string, traderId?: string): Order {
+    const now = Date.now();
+    const id = `LIQ_${symbol}_${this.liquiditySequence++}`;
+    
+    return {
+      id,
+      clientOrderId: id,
+      symbol,
+      side,
+      orderType: 'LIMIT',
+      quantity,
+      price,
+      timeInForce: 'DAY',
+      status: 'NEW',
+      filledQuantity: 0,
+      avgFillPrice: 0,
+      remainingQuantity: quantity,
+      timestamp: now,
+      lastUpdateTime: now,
+      gatewayType: 'FIX',
+      venue,
+      traderId,
+      executionReports: [],
+    };
+  }
+
+  private refreshLiquidity(): void {
+    // Only books with working client orders, or that someone is watching, need to follow the market
+    const symbols = new Set(
+      useOrderStore.getState().orders
+        .filter(order => this.isWorking(order))
+        .map(order => order.symbol)
+    );
+    useMarketDataStore.getState().subscriptions.forEach(symbol => symbols.add(symbol));
+    
+    symbols.forEach(symbol => this.syncLiquidity(symbol));
+  }
+
+  private restoreWorkingOrders(): void {
+    const workingOrders = useOrderStore.getState().orders.filter(order => this.isWorking(order));
+    
+    // Dark orders go back into the pool without crossing; the next midpoint update crosses them.
+    // A remount initializes again while the pool still holds them, so orders already resting are left alone.
+    workingOrders
+      .filter(order => order.venue === DARK_POOL.id)
+      .filter(order => !this.darkPool.getRestingOrders(order.symbol).some(resting => resting.id === order.id))
+      .forEach(order => this.darkPool.addOrder({ ...order }));
+    
+    // Routed parents hold no place in any book; their children are restored on their own venues.
+    // As in the dark pool, an order its venue still holds from before a remount keeps its place.
+    workingOrders
+      .filter(order => order.price && RESTING_ORDER_TYPES.includes(order.orderType) && !this.isRoutedParent(order) && order.venue !== DARK_POOL.id)
+      .forEach(order => {
+        const { venue, engine } = this.getVenueEngineFor(order);
+        if (engine.hasOrder(order.id, order.symbol)) return;
+        const result = engine.addOrder({ ...order });
+        this.applyMatchResult(result, venue);
+      });
+    
+    // Spreads take their place in the spread book again; the next book update works them against their legs
+    workingOrders
+      .filter(order => order.orderType === 'MULTI_LEG')
+      .forEach(order => this.spreadBook.addOrder({ ...order }));
+    
+    // Untriggered stops go back to monitoring; a triggered stop-limit rests as a limit order
+    workingOrders
+      .filter(order => order.orderType === 'STOP' || order.orderType === 'STOP_LIMIT' || order.orderType === 'TRAILING_STOP')
+      .forEach(order => {
+        if (!this.isStopTriggered(order)) {
+          this.stopTriggerEngine.addStop({ ...order });
+        } else if (order.orderType === 'STOP_LIMIT') {
+          const { venue, engine } = this.getVenueEngineFor(order);
+          if (engine.hasOrder(order.id, order.symbol)) return;
+          const result = engine.addOrder({ ...order, orderType: 'LIMIT' });
+          this.applyMatchResult(result, venue);
+        }
+      });
+  }
+
+  private isWorking(order: Order): boolean {
+    return order.status === 'NEW' || order.status === 'PARTIALLY_FILLED';
+  }
+
+  private fillOrder(
+    orderId: string,
+    quantity: number,
+    price: number,
+    tradeId: string,
+    counterOrderId: string,
+    venue: Venue,
+    liquidity?: LiquidityIndicator
+  ): void {
+    const { getOrder, addExecutionReport, addTrade } = useOrderStore.getState();
+    const { updatePosition } = usePositionStore.getState();
+    const tutorialStore = useTutorialStore.getState();
+    
+    // Only client orders are tracked; synthetic liquidity has no blotter entry
+    const order = getOrder(orderId);
+    if (!order) return;
+    
+    const cumQty = order.filledQuantity + quantity;
+    const avgPx = (order.avgFillPrice * order.filledQuantity + price * quantity) / cumQty;
+    const isFilled = cumQty >= order.quantity;
+    
+    const executionReport: ExecutionReport = {
+      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      orderId: order.id,
+      execType: isFilled ? 'FILL' : 'PARTIAL_FILL',
+      execId: `FILL_${order.id}_${tradeId}`,
+      lastQty: quantity,
+      lastPx: Math.round(price * 100) / 100,
+      cumQty,
+      avgPx: Math.round(avgPx * 100) / 100,
+      ordStatus: isFilled ? 'FILLED' : 'PARTIALLY_FILLED',
+      lastMkt: venue.id,
+      timestamp: Date.now(),
+    };
+    
+    // A fill the order can't take, such as one after it was cancelled, books no trade or position
+    if (!addExecutionReport(executionReport)) return;
+    
+    // Venues charge takers and pay makers per share; auction fills carry no fee
+    const feeRate = liquidity === 'TAKER' ? venue.takerFee : liquidity === 'MAKER' ? venue.makerFee : 0;
+    
+    const trade: Trade = {
+      id: `TRD_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity,
+      price: Math.round(price * 100) / 100,
+      timestamp: Date.now(),
+      tradeId,
+      counterparty: getOrder(counterOrderId) ? counterOrderId : LIQUIDITY_COUNTERPARTY,
+      venue: venue.id,
+      liquidity,
+      fee: Math.round(quantity * feeRate * 10000) / 10000,
+      darkPool: venue.dark,
+    };
+    
+    addTrade(trade);
+    
+    // Track trade execution for tutorial achievements
+    tutorialStore.incrementTradesExecuted();
+    
+    const positionQuantity = order.side === 'BUY' ? quantity : -quantity;
+    updatePosition(order.symbol, positionQuantity, price);
+    
+    console.log(`Order filled: ${order.id} - ${quantity}@${price} on ${venue.id}`);
+    
+    this.notifyFill(order.id, quantity, price);
+    if (order.parentOrderId) {
+      this.fillParentOrder(order.parentOrderId, quantity, price, tradeId, venue);
+    }
+  }
+
+  // A child's fill is reported on its parent too; the trade and position were booked on the child
+  private fillParentOrder(parentId: string, quantity: number, price: number, tradeId: string, venue: Venue): void {
+    const { getOrder, addExecutionReport } = useOrderStore.getState();
+    
+    const parent = getOrder(parentId);
+    if (!parent) return;
+    
+    const cumQty = parent.filledQuantity + quantity;
+    const avgPx = (parent.avgFillPrice * parent.filledQuantity + price * quantity) / cumQty;
+    const isFilled = cumQty >= parent.quantity;
+    
+    const executionReport: ExecutionReport = {
+      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      orderId: parent.id,
+      execType: isFilled ? 'FILL' : 'PARTIAL_FILL',
+      execId: `FILL_${parent.id}_${tradeId}`,
+      lastQty: quantity,
+      lastPx: Math.round(price * 100) / 100,
+      cumQty,
+      avgPx: Math.round(avgPx * 100) / 100,
+      ordStatus: isFilled ? 'FILLED' : 'PARTIALLY_FILLED',
+      lastMkt: venue.id,
+      timestamp: Date.now(),
+    };
+    
+    if (!addExecutionReport(executionReport)) return;
+    
+    this.notifyFill(parent.id, quantity, price);
+    
+    // A smart-routed algo child passes the fill on up to the algo parent
+    if (parent.parentOrderId) {
+      this.fillParentOrder(parent.parentOrderId, quantity, price, tradeId, venue);
+    }
+  }
+  
+  private notifyFill(orderId: string, quantity: number, price: number): void {
+    const order = useOrderStore.getState().getOrder(orderId);
+    if (!order) return;
+    
+    this.fillListeners.forEach(listener => listener(order, quantity, price));
+  }
+
+  private getExpiryTime(order: Order): number | undefined {
+    // A spread keeps the hours of its legs
+    const symbol = order.legs?.[0]?.symbol || order.symbol;
+    const instrument = instruments.find(instrument => instrument.symbol === symbol);
+    
+    switch (order.timeInForce) {
+      case 'DAY':
+      case 'GFS':
+        return instrument && getNextSessionClose(instrument.tradingHours, order.timestamp);
+      case 'GTD':
+        // Good-till-date runs to the close of the trading session on that date
+        return instrument && order.expireDate !== undefined
+          ? getNextSessionClose(instrument.tradingHours, order.expireDate)
+          : order.expireDate;
+      case 'GTT':
+        return order.expireDate;
+      default:
+        return undefined;
+    }
+  }
+
+  private expireOrders(): void {
+    const now = Date.now();
+    
+    useOrderStore.getState().orders
+      .filter(order => this.isWorking(order))
+      .forEach(order => {
+        const expiryTime = this.getExpiryTime(order);
+        if (expiryTime !== undefined && expiryTime <= now) {
+          this.expireOrder(order);
+        }
+      });
+  }
+
+  private expireOrder(order: Order): void {
+    const { addExecutionReport } = useOrderStore.getState();
+    
+    const executionReport: ExecutionReport = {
+      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      orderId: order.id,
+      execType: 'EXPIRED',
+      execId: `EXP_${order.id}`,
+      lastQty: 0,
+      lastPx: 0,
+      cumQty: order.filledQuantity,
+      avgPx: order.avgFillPrice,
+      ordStatus: 'EXPIRED',
+      text: `${order.timeInForce} order expired`,
+      timestamp: Date.now(),
+    };
+    
+    if (!addExecutionReport(executionReport)) return;
+    if (order.orderType === 'MULTI_LEG') {
+      this.spreadBook.cancelOrder(order.id, order.symbol);
+      this.publishSpreadBook(order);
+    } else {
+      this.getVenueEngineFor(order).engine.cancelOrder(order.id, order.symbol);
+      this.darkPool.cancelOrder(order.id, order.symbol);
+      this.stopTriggerEngine.cancelStop(order.id, order.symbol);
+      this.postVenues.delete(order.id);
+      this.publishAuction(order.symbol);
+      this.publishBooks(order.symbol);
+    }
+    
+    console.log(`Order expired: ${order.id} (${order.timeInForce})`);
+  }
+
+  private validateOrder(order: Order, lastPrice?: number): OrderRejection | undefined {
+    const instrument = instruments.find(instrument => instrument.symbol === order.symbol);
+    const rejectReason = this.orderValidator.validate(order, instrument, lastPrice);
+    if (rejectReason) return rejectReason;
+    
+    if ((order.timeInForce === 'GTD' || order.timeInForce === 'GTT') && !order.expireDate) {
+      return { code: 'OTHER', text: `${order.timeInForce} order requires an expiry` };
+    }
+    
+    const expiryTime = this.getExpiryTime(order);
+    if (expiryTime !== undefined && expiryTime <= Date.now()) return { code: 'TOO_LATE_TO_ENTER', text: 'Expiry time has already passed' };
+    if (order.algoParams && order.algoParams.endTime <= Date.now()) {
+      return { code: 'TOO_LATE_TO_ENTER', text: 'Algo end time has already passed' };
+    }
+    
+    return undefined;
+  }
+
+  // A report that moves a cancel along without trading; what has filled so far stands
+  private createStatusReport(order: Order, status: 'PENDING_CANCEL' | 'CANCELLED', execIdPrefix: string, text?: string): ExecutionReport {
+    return {
+      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      orderId: order.id,
+      execType: status,
+      execId: `${execIdPrefix}_${order.id}`,
+      lastQty: 0,
+      lastPx: 0,
+      cumQty: order.filledQuantity,
+      avgPx: order.avgFillPrice,
+      ordStatus: status,
+      text,
+      timestamp: Date.now(),
+    };
+  }
+
+  private rejectOrder(orderId: string, rejection: OrderRejection): void {
+    const { addExecutionReport } = useOrderStore.getState();
+    
+    const executionReport: ExecutionReport = {
+      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      orderId,
+      execType: 'REJECTED',
+      execId: `REJ_${orderId}`,
+      lastQty: 0,
+      lastPx: 0,
+      cumQty: 0,
+      avgPx: 0,
+      ordStatus: 'REJECTED',
+      text: rejection.text,
+      ordRejReason: rejection.code,
+      timestamp: Date.now(),
+    };
+    
+    addExecutionReport(executionReport);
+    console.log(`Order rejected: ${orderId} - ${rejection.text} (${rejection.code})`);
+  }
+
+  // Returns why the replace was refused, or undefined once it has been applied
+  async amendOrder(orderId: string, changes: { price?: number; quantity?: number }): Promise<OrderRejection | undefined> {
+    const order = useOrderStore.getState().getOrder(orderId);
+    if (!order) return { code: 'UNKNOWN_ORDER', text: `Unknown order ${orderId}` };
+    
+    const rejection = this.validateAmendment(order, changes);
+    if (rejection) {
+      this.rejectReplace(order, rejection);
+      return rejection;
+    }
+    
+    const price = changes.price ?? order.price;
+    const quantity = changes.quantity ?? order.quantity;
+    const restingChild = this.isRoutedParent(order) ? this.getRestingChild(order) : undefined;
+    
+    this.replaceOrder(order, price, quantity);
+    
+    // The resting child takes the same change; what its siblings already filled stays out of it
+    if (restingChild) {
+      this.replaceOrder(restingChild, price, restingChild.quantity + quantity - order.quantity);
+    }
+    
+    return undefined;
+  }
+
+  private validateAmendment(order: Order, changes: { price?: number; quantity?: number }): OrderRejection | undefined {
+    if (!this.isWorking(order)) {
+      return { code: 'TOO_LATE_TO_ENTER', text: `Too late to replace an order that is ${order.status}` };
+    }
+    
+    const price = changes.price ?? order.price;
+    const quantity = changes.quantity ?? order.quantity;
+    if (price === order.price && quantity === order.quantity) {
+      return { code: 'OTHER', text: 'Replace changes neither price nor quantity' };
+    }
+    
+    // Pegged prices follow the market, and an order can't shrink below what has already traded
+    if (order.orderType === 'PEGGED' && price !== order.price) {
+      return { code: 'UNSUPPORTED_ORDER_CHARACTERISTIC', text: 'Pegged orders cannot be repriced' };
+    }
+    if (quantity <= order.filledQuantity) {
+      return { code: 'INCORRECT_QUANTITY', text: `Quantity must exceed the ${order.filledQuantity} already filled` };
+    }
+    
+    if (this.isAlgoOrder(order)) {
+      return { code: 'UNSUPPORTED_ORDER_CHARACTERISTIC', text: 'Algo orders cannot be amended while working' };
+    }
+    if (order.orderType === 'MULTI_LEG') {
+      return { code: 'UNSUPPORTED_ORDER_CHARACTERISTIC', text: 'Spread orders are cancelled and re-entered' };
+    }
+    
+    // Routed orders are amended through the parent, and only once the remainder rests on one venue
+    if (order.parentOrderId) {
+      return { code: 'UNSUPPORTED_ORDER_CHARACTERISTIC', text: 'Child orders are amended through their parent' };
+    }
+    if (this.isRoutedParent(order) && !this.getRestingChild(order)) {
+      return { code: 'OTHER', text: 'Order is still being routed' };
+    }
+    
+    // The replacement must pass the same checks as a new order
+    const lastPrice = useMarketDataStore.getState().getMarketData(order.symbol)?.price;
+    return this.validateOrder({ ...order, price, quantity }, lastPrice);
+  }
+
+  // The refused replace is answered on the order itself; its ClOrdID and terms stay as they were
+  private rejectReplace(order: Order, rejection: OrderRejection): void {
+    const { addExecutionReport } = useOrderStore.getState();
+    
+    const executionReport: ExecutionReport = {
+      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      orderId: order.id,
+      execType: 'REPLACE_REJECTED',
+      execId: `RRJ_${order.id}_${Date.now()}`,
+      clientOrderId: order.clientOrderId,
+      lastQty: 0,
+      lastPx: 0,
+      cumQty: order.filledQuantity,
+      avgPx: order.avgFillPrice,
+      ordStatus: order.status,
+      text: `Replace rejected: ${rejection.text}`,
+      ordRejReason: rejection.code,
+      timestamp: Date.now(),
+    };
+    
+    addExecutionReport(executionReport);
+  }
+
+  private getRestingChild(parent: Order): Order | undefined {
+    if (this.postVenues.has(parent.id)) return undefined;
+    
+    const { getOrder } = useOrderStore.getState();
+    const working = (parent.childOrderIds || [])
+      .map(id => getOrder(id))
+      .filter((child): child is Order => child !== undefined && this.isWorking(child));
+    
+    return working.length === 1 ? working[0] : undefined;
+  }
+
+  private replaceOrder(order: Order, price: number | undefined, quantity: number): void {
+    const { getOrder, updateOrder, addExecutionReport } = useOrderStore.getState();
+    
+    // Each replacement carries a fresh ClOrdID chained to the one it replaces
+    const clientOrderId = `CLT_${Date.now()}_${this.orderSequence++}`;
+    const origClientOrderId = order.clientOrderId;
+    
+    updateOrder(order.id, { price, quantity, clientOrderId, origClientOrderId });
+    
+    const executionReport: ExecutionReport = {
+      id: `EXEC_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      orderId: order.id,
+      execType: 'REPLACED',
+      execId: `RPL_${order.id}_${Date.now()}`,
+      clientOrderId,
+      origClientOrderId,
+      lastQty: 0,
+      lastPx: 0,
+      cumQty: order.filledQuantity,
+      avgPx: order.avgFillPrice,
+      ordStatus: order.status,
+      text: `Replaced ${origClientOrderId}`,
+      timestamp: Date.now(),
+    };
+    
+    addExecutionReport(executionReport);
+    console.log(`Order replaced: ${order.id} - ${origClientOrderId} -> ${clientOrderId}`);
+    
+    // Untriggered stops are amended where they wait, outside the book
+    const updated = getOrder(order.id);
+    if (updated && this.stopTriggerEngine.cancelStop(order.id, order.symbol)) {
+      this.stopTriggerEngine.addStop({ ...updated });
+      return;
+    }
+    
+    // A routed parent has no place in any book of its own
+    if (this.isRoutedParent(order)) return;
+    
+    if (order.venue === DARK_POOL.id) {
+      const result = this.darkPool.replaceOrder(order.id, order.symbol, { price, quantity }, this.getDarkMidpoint(order.symbol));
+      if (result) this.applyDarkResult(order.symbol, result);
+      return;
+    }
+    
+    // The engine decides whether the amendment keeps queue priority
+    this.syncLiquidity(order.symbol);
+    const { venue, engine } = this.getVenueEngineFor(order);
+    const result = engine.replaceOrder(order.id, order.symbol, { price, quantity });
+    if (result) {
+      this.applyMatchResult(result, venue);
+      this.publishAuction(order.symbol);
+      this.publishBooks(order.symbol);
+    }
+  }
+
+  async cancelOrder(orderId: string, reason?: string): Promise<boolean> {
+    const { getOrder, addExecutionReport } = useOrderStore.getState();
+    
+    const order = getOrder(orderId);
+    if (!order || !this.isWorking(order)) return false;
+    
+    // A routed order is pending cancel while its children are pulled, so none of them going away posts a remainder
+    const workingChildIds = (order.childOrderIds || []).filter(childId => {
+      const child = getOrder(childId);
+      return child !== undefined && this.isWorking(child);
+    });
+    if (workingChildIds.length > 0) {
+      addExecutionReport(this.createStatusReport(order, 'PENDING_CANCEL', 'PCX', reason));
+      workingChildIds.forEach(childId => this.cancelOrder(childId, reason));
+    }
+    
+    // Children filled on the way out are already on the parent
+    const current = getOrder(orderId)!;
+    if (!addExecutionReport(this.createStatusReport(current, 'CANCELLED', 'CXL', reason))) return false;
+    
+    if (order.orderType === 'MULTI_LEG') {
+      this.spreadBook.cancelOrder(orderId, order.symbol);
+      this.publishSpreadBook(order);
+    } else {
+      this.getVenueEngineFor(order).engine.cancelOrder(orderId, order.symbol);
+      this.darkPool.cancelOrder(orderId, order.symbol);
+      this.stopTriggerEngine.cancelStop(orderId, order.symbol);
+      this.postVenues.delete(orderId);
+      this.publishBooks(order.symbol);
+    }
+    
+    console.log(`Order cancelled: ${orderId}${reason ? ` - ${reason}` : ''}`);
+    
+    // A child going away may finish its parent
+    if (order.parentOrderId) {
+      this.onChildOrderDone(order.parentOrderId);
+    }
+    
+    return true;
+  }
+}
+
+export const orderService = new OrderService();
@@ -0,0 +1,145 @@
+import { Order, OrderType, OrdRejReason } from '@/types/trading';
+import { Instrument } from '@/types/market';
+
+export interface OrderValidatorConfig {
+  // Limit prices further than this from the last trade are rejected as likely errors
+  priceCollarPercent: number;
+}
+
+// Floating-point tolerance when checking multiples of a tick or lot
+const EPSILON = 1e-6;
+
+// Parent orders worked over time by an execution algorithm rather than sent to a venue
+export const ALGO_ORDER_TYPES: OrderType[] = ['TWAP', 'VWAP', 'POV', 'IMPLEMENTATION_SHORTFALL'];
+
+// Why an order is turned away: the FIX reject code alongside the text shown to the trader
+export interface OrderRejection {
+  code: OrdRejReason;
+  text: string;
+}
+
+const reject = (code: OrdRejReason, text: string): OrderRejection => ({ code, text });
+
+export class OrderValidator {
+  private config: OrderValidatorConfig;
+
+  constructor(config: Partial<OrderValidatorConfig> = {}) {
+    this.config = {
+      priceCollarPercent: 10,
+      ...config,
+    };
+  }
+
+  setPriceCollar(percent: number): void {
+    this.config.priceCollarPercent = percent;
+  }
+
+  // Returns the reason the order must be rejected, or undefined when it is acceptable
+  validate(order: Order, instrument?: Instrument, lastPrice?: number): OrderRejection | undefined {
+    return this.validateFields(order)
+      ?? (instrument && this.validateReferenceData(order, instrument))
+      ?? (lastPrice ? this.validateCollar(order, lastPrice) : undefined);
+  }
+
+  private validateFields(order: Order): OrderRejection | undefined {
+    if (order.quantity <= 0) return reject('INCORRECT_QUANTITY', 'Quantity must be greater than zero');
+    if ((order.orderType === 'LIMIT' || order.orderType === 'STOP_LIMIT' || order.orderType === 'ICEBERG') && !order.price) {
+      return reject('OTHER', 'Limit price is required');
+    }
+    if ((order.orderType === 'STOP' || order.orderType === 'STOP_LIMIT') && !order.stopPrice) {
+      return reject('OTHER', 'Stop price is required');
+    }
+    if (order.orderType === 'TRAILING_STOP') {
+      if (!order.trailType) return reject('OTHER', 'Trail type is required');
+      if (!order.trailAmount || order.trailAmount <= 0) return reject('OTHER', 'Trail amount must be greater than zero');
+      if (order.trailType === 'PERCENTAGE' && order.trailAmount >= 100) return reject('OTHER', 'Trail percentage must be below 100%');
+    }
+    if (order.orderType === 'MULTI_LEG') {
+      // A spread's net price may be zero or a credit, so only its presence is required
+      if (order.price === undefined) return reject('OTHER', 'Net price is required');
+      if (!order.legs || order.legs.length < 2) return reject('OTHER', 'A spread needs at least two legs');
+      if (order.legs.some(leg => !Number.isInteger(leg.ratio) || leg.ratio < 1)) return reject('OTHER', 'Leg ratios must be whole numbers of at least 1');
+      if (new Set(order.legs.map(leg => leg.symbol)).size !== order.legs.length) return reject('OTHER', 'Each leg must trade a different instrument');
+    }
+    if (order.orderType === 'PEGGED' && !order.pegType) return reject('OTHER', 'Peg type is required');
+    if (order.orderType === 'ICEBERG' && (!order.displayQuantity || order.displayQuantity <= 0 || order.displayQuantity > order.quantity)) {
+      return reject('INCORRECT_QUANTITY', 'Display quantity must be between 1 and the order quantity');
+    }
+    if (order.minQuantity !== undefined && (order.minQuantity <= 0 || order.minQuantity > order.quantity)) {
+      return reject('INCORRECT_QUANTITY', 'Minimum quantity must be between 1 and the order quantity');
+    }
+    if (ALGO_ORDER_TYPES.includes(order.orderType) && !order.algoParams) {
+      return reject('OTHER', `${order.orderType} order requires a start and end time`);
+    }
+    if (order.algoParams) {
+      const { startTime, endTime, sliceCount, maxParticipationRate, targetParticipationRate, riskAversion } = order.algoParams;
+      if (endTime <= startTime) return reject('OTHER', 'Algo end time must be after its start time');
+      if (order.orderType === 'POV') {
+        // The target is a share of everyone's volume including the algo's own, so 100% could never be reached
+        if (targetParticipationRate === undefined || targetParticipationRate <= 0 || targetParticipationRate >= 1) {
+          return reject('OTHER', 'Target participation rate must be above 0% and below 100%');
+        }
+      } else {
+        if (sliceCount === undefined || !Number.isInteger(sliceCount) || sliceCount < 1) return reject('OTHER', 'Slice count must be a whole number of at least 1');
+        if (sliceCount > order.quantity) return reject('INCORRECT_QUANTITY', 'Slice count cannot exceed the order quantity');
+      }
+      if (maxParticipationRate !== undefined && (maxParticipationRate <= 0 || maxParticipationRate > 1)) {
+        return reject('OTHER', 'Max participation rate must be between 0 and 100%');
+      }
+      if (riskAversion !== undefined && (riskAversion < 0 || riskAversion > 1)) {
+        return reject('OTHER', 'Risk aversion must be between 0 and 1');
+      }
+    }
+    return undefined;
+  }
+
+  private validateReferenceData(order: Order, instrument: Instrument): OrderRejection | undefined {
+    const { tickSize, lotSize } = instrument;
+
+    // Pegged prices are set by the engine; only the offset is entered in ticks
+    if (order.orderType !== 'PEGGED' && order.price !== undefined && !this.isMultipleOf(order.price, tickSize)) {
+      return reject('INVALID_PRICE_INCREMENT', `Price ${order.price} is not a multiple of the ${tickSize} tick size`);
+    }
+    if (order.stopPrice !== undefined && !this.isMultipleOf(order.stopPrice, tickSize)) {
+      return reject('INVALID_PRICE_INCREMENT', `Stop price ${order.stopPrice} is not a multiple of the ${tickSize} tick size`);
+    }
+    if (order.trailType === 'ABSOLUTE' && order.trailAmount && !this.isMultipleOf(order.trailAmount, tickSize)) {
+      return reject('INVALID_PRICE_INCREMENT', `Trail amount ${order.trailAmount} is not a multiple of the ${tickSize} tick size`);
+    }
+    // Midpoint pegs may rest between ticks, so their offset is not held to the grid either
+    if (order.pegOffset && order.pegType !== 'MIDPOINT' && !this.isMultipleOf(order.pegOffset, tickSize)) {
+      return reject('INVALID_PRICE_INCREMENT', `Peg offset ${order.pegOffset} is not a multiple of the ${tickSize} tick size`);
+    }
+
+    if (!this.isMultipleOf(order.quantity, lotSize)) {
+      return reject('INCORRECT_QUANTITY', `Quantity ${order.quantity} is an odd lot; lot size is ${lotSize}`);
+    }
+    if (order.displayQuantity !== undefined && !this.isMultipleOf(order.displayQuantity, lotSize)) {
+      return reject('INCORRECT_QUANTITY', `Display quantity ${order.displayQuantity} is an odd lot; lot size is ${lotSize}`);
+    }
+    if (order.minQuantity !== undefined && !this.isMultipleOf(order.minQuantity, lotSize)) {
+      return reject('INCORRECT_QUANTITY', `Minimum quantity ${order.minQuantity} is an odd lot; lot size is ${lotSize}`);
+    }
+
+    return undefined;
+  }
+
+  private validateCollar(order: Order, lastPrice: number): OrderRejection | undefined {
+    // Only prices that go straight into the book are collared; stops wait for the market
+    if (order.price === undefined || (order.orderType !== 'LIMIT' && order.orderType !== 'ICEBERG')) {
+      return undefined;
+    }
+
+    const band = lastPrice * this.config.priceCollarPercent / 100;
+    if (order.price < lastPrice - band || order.price > lastPrice + band) {
+      return reject('PRICE_EXCEEDS_CURRENT_PRICE_BAND', `Price ${order.price} is outside the ${this.config.priceCollarPercent}% collar around last trade ${lastPrice}`);
+    }
+
+    return undefined;
+  }
+
+  private isMultipleOf(value: number, increment: number): boolean {
+    const multiple = value / increment;
+    return Math.abs(multiple - Math.round(multiple)) < EPSILON;
+  }
+}
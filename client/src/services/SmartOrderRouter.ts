@@ -0,0 +1,91 @@
+import { Order, OrderBookLevel, OrderSide } from '@/types/trading';
+import { Venue } from '@/types/market';
+
+// One venue's side of the book that an incoming order would trade against, best first
+export interface VenueLiquidity {
+  venue: Venue;
+  levels: OrderBookLevel[];
+}
+
+// A child order for one venue; the price is the worst level it is allowed to reach
+export interface RouteSlice {
+  venueId: string;
+  quantity: number;
+  price: number;
+}
+
+export interface RoutingPlan {
+  slices: RouteSlice[];
+  remainder: number;
+  postVenueId: string;
+}
+
+interface Candidate {
+  venue: Venue;
+  price: number;
+  effectivePrice: number;
+  quantity: number;
+}
+
+export class SmartOrderRouter {
+  // Splits an order across the venues by all-in price: displayed price plus the
+  // taker fee for buys, minus it for sells. Ties go to the faster venue.
+  plan(order: Order, liquidity: VenueLiquidity[]): RoutingPlan {
+    const candidates: Candidate[] = liquidity.flatMap(({ venue, levels }) =>
+      levels
+        .filter(level => level.quantity > 0 && this.isWithinLimit(order, level.price))
+        .map(level => ({
+          venue,
+          price: level.price,
+          effectivePrice: this.getEffectivePrice(order.side, level.price, venue.takerFee),
+          quantity: level.quantity,
+        }))
+    );
+
+    candidates.sort((a, b) => {
+      const byPrice = order.side === 'BUY'
+        ? a.effectivePrice - b.effectivePrice
+        : b.effectivePrice - a.effectivePrice;
+      return byPrice || a.venue.latencyMs - b.venue.latencyMs;
+    });
+
+    const slices = new Map<string, RouteSlice>();
+    let remainder = order.quantity - order.filledQuantity;
+
+    for (const candidate of candidates) {
+      if (remainder <= 0) break;
+
+      const quantity = Math.min(remainder, candidate.quantity);
+      const slice = slices.get(candidate.venue.id) || { venueId: candidate.venue.id, quantity: 0, price: candidate.price };
+      slice.quantity += quantity;
+      slice.price = this.isWorsePrice(order.side, slice.price, candidate.price) ? candidate.price : slice.price;
+      slices.set(candidate.venue.id, slice);
+      remainder -= quantity;
+    }
+
+    return {
+      slices: Array.from(slices.values()),
+      remainder,
+      postVenueId: this.choosePostingVenue(liquidity.map(({ venue }) => venue)).id,
+    };
+  }
+
+  getEffectivePrice(side: OrderSide, price: number, fee: number): number {
+    return side === 'BUY' ? price + fee : price - fee;
+  }
+
+  private isWithinLimit(order: Order, price: number): boolean {
+    if (order.orderType === 'MARKET' || !order.price) return true;
+    return order.side === 'BUY' ? price <= order.price : price >= order.price;
+  }
+
+  // True when `candidate` is further from the touch than `current`
+  private isWorsePrice(side: OrderSide, current: number, candidate: number): boolean {
+    return side === 'BUY' ? candidate > current : candidate < current;
+  }
+
+  // Unfilled quantity rests where it earns the most for adding liquidity, then where most liquidity trades
+  private choosePostingVenue(venues: Venue[]): Venue {
+    return [...venues].sort((a, b) => a.makerFee - b.makerFee || b.liquidityShare - a.liquidityShare)[0];
+  }
+}
@@ -0,0 +1,74 @@
+import { Order, OrderBookLevel } from '@/types/trading';
+
+// Resting spread orders, one book per spread, priced at a net debit (positive) or credit (negative).
+// Orders here only hold their place; executing the legs is left to the caller, which reports each
+// fill back so the book stays in step.
+export class SpreadOrderBook {
+  private restingOrders: Map<string, Order[]> = new Map(); // spread symbol -> orders in time priority
+
+  // An order already resting keeps its place, so restoring the same orders twice can't double them
+  addOrder(order: Order): void {
+    const orders = this.restingOrders.get(order.symbol) || [];
+    if (orders.some(resting => resting.id === order.id)) return;
+    this.restingOrders.set(order.symbol, [...orders, { ...order }]);
+  }
+
+  cancelOrder(orderId: string, symbol: string): boolean {
+    const orders = this.restingOrders.get(symbol) || [];
+    const remaining = orders.filter(order => order.id !== orderId);
+    if (remaining.length === orders.length) return false;
+
+    this.restingOrders.set(symbol, remaining);
+    return true;
+  }
+
+  // Records spreads traded by a resting order, removing it once complete
+  fill(orderId: string, symbol: string, quantity: number): void {
+    const orders = (this.restingOrders.get(symbol) || [])
+      .map(order => order.id === orderId ? { ...order, filledQuantity: order.filledQuantity + quantity } : order)
+      .filter(order => order.filledQuantity < order.quantity);
+    this.restingOrders.set(symbol, orders);
+  }
+
+  getRestingOrders(symbol: string): Order[] {
+    return this.restingOrders.get(symbol) || [];
+  }
+
+  getSymbols(): string[] {
+    return Array.from(this.restingOrders.keys()).filter(symbol => this.getRestingOrders(symbol).length > 0);
+  }
+
+  // Spreads with a resting order that trades the given outright as a leg
+  getOrdersWithLeg(legSymbol: string): Order[] {
+    return Array.from(this.restingOrders.values())
+      .flat()
+      .filter(order => order.legs?.some(leg => leg.symbol === legSymbol));
+  }
+
+  // Resting orders the incoming order can trade with, best price first then oldest. A trader's own orders are skipped.
+  getContras(order: Order): Order[] {
+    return this.getRestingOrders(order.symbol)
+      .filter(contra => contra.side !== order.side && contra.traderId !== order.traderId)
+      .filter(contra => order.side === 'BUY' ? contra.price! <= order.price! : contra.price! >= order.price!)
+      .sort((a, b) => (order.side === 'BUY' ? a.price! - b.price! : b.price! - a.price!) || a.timestamp - b.timestamp);
+  }
+
+  getLevels(symbol: string): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } {
+    const orders = this.getRestingOrders(symbol);
+    return {
+      bids: this.aggregate(orders.filter(order => order.side === 'BUY')).sort((a, b) => b.price - a.price),
+      asks: this.aggregate(orders.filter(order => order.side === 'SELL')).sort((a, b) => a.price - b.price),
+    };
+  }
+
+  private aggregate(orders: Order[]): OrderBookLevel[] {
+    const levels = new Map<number, OrderBookLevel>();
+    orders.forEach(order => {
+      const level = levels.get(order.price!) || { price: order.price!, quantity: 0, orderCount: 0 };
+      level.quantity += order.quantity - order.filledQuantity;
+      level.orderCount += 1;
+      levels.set(order.price!, level);
+    });
+    return Array.from(levels.values());
+  }
+}
@@ -0,0 +1,99 @@
+import { Order, StopTriggerType } from '@/types/trading';
+
+export interface TriggerPrices {
+  last: number;
+  bid: number;
+  ask: number;
+}
+
+export class StopTriggerEngine {
+  private pendingStops: Map<string, Order[]> = new Map(); // symbol -> untriggered stop orders
+
+  addStop(order: Order): void {
+    this.cancelStop(order.id, order.symbol);
+
+    const stops = this.pendingStops.get(order.symbol) || [];
+    this.pendingStops.set(order.symbol, [...stops, order]);
+  }
+
+  cancelStop(orderId: string, symbol: string): boolean {
+    const stops = this.pendingStops.get(symbol) || [];
+    const remaining = stops.filter(order => order.id !== orderId);
+    if (remaining.length === stops.length) return false;
+
+    this.pendingStops.set(symbol, remaining);
+    return true;
+  }
+
+  getPendingStops(symbol: string): Order[] {
+    return this.pendingStops.get(symbol) || [];
+  }
+
+  // Removes and returns every stop the prices have touched, in the order the move reached them
+  evaluate(symbol: string, prices: TriggerPrices): Order[] {
+    const stops = this.pendingStops.get(symbol) || [];
+    const triggered = stops.filter(order => this.isTriggered(order, prices));
+    if (triggered.length === 0) return [];
+
+    this.pendingStops.set(symbol, stops.filter(order => !triggered.includes(order)));
+
+    return triggered.sort((a, b) => {
+      const distanceA = Math.abs(a.stopPrice! - this.getTriggerPrice(a, prices));
+      const distanceB = Math.abs(b.stopPrice! - this.getTriggerPrice(b, prices));
+      return distanceB - distanceA || a.timestamp - b.timestamp;
+    });
+  }
+
+  // Carries each trailing stop's watermark to the best trigger price seen and its stop along behind it.
+  // A stop only ever tightens. Returns the stops that moved.
+  trail(symbol: string, prices: TriggerPrices, getStopPrice: (order: Order, watermark: number) => number): Order[] {
+    const moved: Order[] = [];
+
+    const stops = (this.pendingStops.get(symbol) || []).map(order => {
+      if (order.orderType !== 'TRAILING_STOP' || order.trailWatermark === undefined) return order;
+
+      const triggerPrice = this.getTriggerPrice(order, prices);
+      if (!triggerPrice) return order;
+
+      // Sell stops trail below the highest price since activation, buy stops above the lowest
+      const isSell = order.side === 'SELL';
+      if (isSell ? triggerPrice <= order.trailWatermark : triggerPrice >= order.trailWatermark) return order;
+
+      const stopPrice = getStopPrice(order, triggerPrice);
+      const tightened = order.stopPrice === undefined ? stopPrice
+        : isSell ? Math.max(stopPrice, order.stopPrice) : Math.min(stopPrice, order.stopPrice);
+
+      const updated = { ...order, trailWatermark: triggerPrice, stopPrice: tightened };
+      moved.push(updated);
+      return updated;
+    });
+
+    this.pendingStops.set(symbol, stops);
+    return moved;
+  }
+
+  getTriggerPrice(order: Order, prices: TriggerPrices): number {
+    const triggerType: StopTriggerType = order.triggerType || 'LAST';
+
+    switch (triggerType) {
+      case 'BID':
+        return prices.bid;
+      case 'ASK':
+        return prices.ask;
+      default:
+        return prices.last;
+    }
+  }
+
+  private isTriggered(order: Order, prices: TriggerPrices): boolean {
+    if (!order.stopPrice) return false;
+
+    const triggerPrice = this.getTriggerPrice(order, prices);
+    if (!triggerPrice) return false;
+
+    // Buy stops trigger on a rise through the stop, sell stops on a fall
+    return order.side === 'BUY'
+      ? triggerPrice >= order.stopPrice
+      : triggerPrice <= order.stopPrice;
+  }
+}
@@ -0,0 +1,67 @@
+import { useMarketDataStore } from '@/stores/useMarketDataStore';
+import { instruments } from '@/data/instruments';
+import { SessionPhase } from '@/types/market';
+import { getSessionPhase } from '@/utils/tradingHours';
+
+const SESSION_CHECK_INTERVAL_MS = 1000;
+
+export class TradingSessionService {
+  private haltedSymbols: Set<string> = new Set();
+  private sessionInterval: NodeJS.Timeout | null = null;
+
+  start(): void {
+    if (this.sessionInterval) return;
+
+    this.updatePhases();
+    this.sessionInterval = setInterval(() => {
+      this.updatePhases();
+    }, SESSION_CHECK_INTERVAL_MS);
+
+    console.log('Trading session service started');
+  }
+
+  stop(): void {
+    if (this.sessionInterval) {
+      clearInterval(this.sessionInterval);
+      this.sessionInterval = null;
+    }
+  }
+
+  getPhase(symbol: string): SessionPhase | undefined {
+    if (this.haltedSymbols.has(symbol)) return 'HALTED';
+
+    const instrument = instruments.find(instrument => instrument.symbol === symbol);
+    return instrument && getSessionPhase(instrument.tradingHours, Date.now());
+  }
+
+  // A halt overrides the schedule until the symbol is resumed
+  halt(symbol: string): void {
+    this.haltedSymbols.add(symbol);
+    this.updatePhases();
+    console.log(`Trading halted: ${symbol}`);
+  }
+
+  resume(symbol: string): void {
+    if (!this.haltedSymbols.delete(symbol)) return;
+    this.updatePhases();
+    console.log(`Trading resumed: ${symbol}`);
+  }
+
+  isHalted(symbol: string): boolean {
+    return this.haltedSymbols.has(symbol);
+  }
+
+  private updatePhases(): void {
+    const { getSessionPhase: getPublishedPhase, updateSessionPhase } = useMarketDataStore.getState();
+
+    // Only transitions are published, so subscribers see one update per phase change
+    instruments.forEach(instrument => {
+      const phase = this.getPhase(instrument.symbol);
+      if (phase && phase !== getPublishedPhase(instrument.symbol)) {
+        updateSessionPhase(instrument.symbol, phase);
+      }
+    });
+  }
+}
+
+export const tradingSessionService = new TradingSessionService();
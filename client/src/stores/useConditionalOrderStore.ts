@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+import { ConditionalOrder } from '@/types/trading';
+import { getLocalStorage, setLocalStorage } from '@/lib/utils';
+
+interface ConditionalOrderState {
+  conditionalOrders: ConditionalOrder[];
+
+  // Actions
+  addConditionalOrder: (conditionalOrder: Omit<ConditionalOrder, 'id' | 'createdAt'>) => string;
+  updateConditionalOrder: (id: string, updates: Partial<ConditionalOrder>) => void;
+  removeConditionalOrder: (id: string) => void;
+  getConditionalOrder: (id: string) => ConditionalOrder | undefined;
+  saveToStorage: () => void;
+  loadFromStorage: () => void;
+}
+
+export const useConditionalOrderStore = create<ConditionalOrderState>()(
+  subscribeWithSelector((set, get) => ({
+    conditionalOrders: [],
+
+    addConditionalOrder: (conditionalOrder) => {
+      const id = `COND_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      set(state => ({
+        conditionalOrders: [...state.conditionalOrders, { ...conditionalOrder, id, createdAt: Date.now() }]
+      }));
+
+      get().saveToStorage();
+      return id;
+    },
+
+    updateConditionalOrder: (id, updates) => {
+      set(state => ({
+        conditionalOrders: state.conditionalOrders.map(conditionalOrder =>
+          conditionalOrder.id === id ? { ...conditionalOrder, ...updates } : conditionalOrder
+        )
+      }));
+      get().saveToStorage();
+    },
+
+    removeConditionalOrder: (id) => {
+      set(state => ({
+        conditionalOrders: state.conditionalOrders.filter(conditionalOrder => conditionalOrder.id !== id)
+      }));
+      get().saveToStorage();
+    },
+
+    getConditionalOrder: (id) => {
+      return get().conditionalOrders.find(conditionalOrder => conditionalOrder.id === id);
+    },
+
+    saveToStorage: () => {
+      setLocalStorage('conditionalOrders', get().conditionalOrders);
+    },
+
+    loadFromStorage: () => {
+      const conditionalOrders = getLocalStorage('conditionalOrders') || [];
+      set({ conditionalOrders });
+    },
+  }))
+);
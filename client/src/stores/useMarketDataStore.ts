@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { MarketData, Tick, OHLCV, OrderBook } from '@/types/market';
+import { MarketData, Tick, OHLCV, OrderBook, SessionPhase, TradingHalt, NBBO } from '@/types/market';
+import { AuctionState, BookEvent, MarketByOrder, SpreadBook } from '@/types/trading';
 
 interface MarketDataState {
   // Market data
@@ -8,6 +9,13 @@ interface MarketDataState {
   orderBooks: Map<string, OrderBook>;
   ticks: Map<string, Tick[]>;
   ohlcvData: Map<string, OHLCV[]>;
+  auctions: Map<string, AuctionState>;
+  sessionPhases: Map<string, SessionPhase>;
+  halts: Map<string, TradingHalt>;
+  nbbo: Map<string, NBBO>;
+  marketByOrder: Map<string, MarketByOrder[]>; // symbol -> one L3 book per venue
+  bookEvents: Map<string, BookEvent[]>;
+  spreadBooks: Map<string, SpreadBook>; // spread symbol -> net-priced book with implied prices
   
   // WebSocket state
   isConnected: boolean;
@@ -19,6 +27,15 @@ interface MarketDataState {
   updateOrderBook: (symbol: string, orderBook: OrderBook) => void;
   addTick: (tick: Tick) => void;
   addOHLCV: (ohlcv: OHLCV) => void;
+  updateAuction: (symbol: string, auction: AuctionState) => void;
+  clearAuction: (symbol: string) => void;
+  updateSessionPhase: (symbol: string, phase: SessionPhase) => void;
+  updateHalt: (symbol: string, halt: TradingHalt) => void;
+  clearHalt: (symbol: string) => void;
+  updateNbbo: (symbol: string, nbbo: NBBO) => void;
+  updateMarketByOrder: (symbol: string, books: MarketByOrder[]) => void;
+  addBookEvents: (symbol: string, events: BookEvent[]) => void;
+  updateSpreadBook: (symbol: string, book: SpreadBook) => void;
   subscribe: (symbol: string) => void;
   unsubscribe: (symbol: string) => void;
   startDataFeed: () => void;
@@ -27,6 +44,13 @@ interface MarketDataState {
   getOrderBook: (symbol: string) => OrderBook | undefined;
   getTicks: (symbol: string) => Tick[];
   getOHLCV: (symbol: string) => OHLCV[];
+  getAuction: (symbol: string) => AuctionState | undefined;
+  getSessionPhase: (symbol: string) => SessionPhase | undefined;
+  getHalt: (symbol: string) => TradingHalt | undefined;
+  getNbbo: (symbol: string) => NBBO | undefined;
+  getMarketByOrder: (symbol: string) => MarketByOrder[];
+  getBookEvents: (symbol: string) => BookEvent[];
+  getSpreadBook: (symbol: string) => SpreadBook | undefined;
 }
 
 export const useMarketDataStore = create<MarketDataState>()(
@@ -36,6 +60,13 @@ export const useMarketDataStore = create<MarketDataState>()(
     orderBooks: new Map(),
     ticks: new Map(),
     ohlcvData: new Map(),
+    auctions: new Map(),
+    sessionPhases: new Map(),
+    halts: new Map(),
+    nbbo: new Map(),
+    marketByOrder: new Map(),
+    bookEvents: new Map(),
+    spreadBooks: new Map(),
     isConnected: false,
     lastUpdate: Date.now(),
     subscriptions: new Set(),
@@ -87,6 +118,66 @@ export const useMarketDataStore = create<MarketDataState>()(
       });
     },
     
+    updateAuction: (symbol, auction) => {
+      const currentAuctions = new Map(get().auctions);
+      currentAuctions.set(symbol, auction);
+      set({ 
+        auctions: currentAuctions,
+        lastUpdate: Date.now()
+      });
+    },
+    
+    clearAuction: (symbol) => {
+      const currentAuctions = new Map(get().auctions);
+      currentAuctions.delete(symbol);
+      set({ auctions: currentAuctions });
+    },
+    
+    updateSessionPhase: (symbol, phase) => {
+      const currentPhases = new Map(get().sessionPhases);
+      currentPhases.set(symbol, phase);
+      set({ sessionPhases: currentPhases });
+    },
+    
+    updateHalt: (symbol, halt) => {
+      const currentHalts = new Map(get().halts);
+      currentHalts.set(symbol, halt);
+      set({ halts: currentHalts });
+    },
+    
+    clearHalt: (symbol) => {
+      const currentHalts = new Map(get().halts);
+      currentHalts.delete(symbol);
+      set({ halts: currentHalts });
+    },
+    
+    updateNbbo: (symbol, nbbo) => {
+      const currentNbbo = new Map(get().nbbo);
+      currentNbbo.set(symbol, nbbo);
+      set({ nbbo: currentNbbo });
+    },
+    
+    updateMarketByOrder: (symbol, books) => {
+      const currentBooks = new Map(get().marketByOrder);
+      currentBooks.set(symbol, books);
+      set({ marketByOrder: currentBooks });
+    },
+    
+    addBookEvents: (symbol, events) => {
+      const currentEvents = new Map(get().bookEvents);
+      const symbolEvents = currentEvents.get(symbol) || [];
+      
+      // Keep only last 500 events per symbol
+      currentEvents.set(symbol, [...symbolEvents, ...events].slice(-500));
+      set({ bookEvents: currentEvents });
+    },
+    
+    updateSpreadBook: (symbol, book) => {
+      const currentBooks = new Map(get().spreadBooks);
+      currentBooks.set(symbol, book);
+      set({ spreadBooks: currentBooks });
+    },
+    
     subscribe: (symbol) => {
       const currentSubs = new Set(get().subscriptions);
       currentSubs.add(symbol);
@@ -114,5 +205,12 @@ export const useMarketDataStore = create<MarketDataState>()(
     getOrderBook: (symbol) => get().orderBooks.get(symbol),
     getTicks: (symbol) => get().ticks.get(symbol) || [],
     getOHLCV: (symbol) => get().ohlcvData.get(symbol) || [],
+    getAuction: (symbol) => get().auctions.get(symbol),
+    getSessionPhase: (symbol) => get().sessionPhases.get(symbol),
+    getHalt: (symbol) => get().halts.get(symbol),
+    getNbbo: (symbol) => get().nbbo.get(symbol),
+    getMarketByOrder: (symbol) => get().marketByOrder.get(symbol) || [],
+    getBookEvents: (symbol) => get().bookEvents.get(symbol) || [],
+    getSpreadBook: (symbol) => get().spreadBooks.get(symbol),
   }))
 );
@@ -1,12 +1,14 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { Order, Trade, ExecutionReport, OrderType, OrderSide, TimeInForce } from '@/types/trading';
+import { Order, Trade, ExecutionReport, OrderAuditEntry, OrderType, OrderSide, TimeInForce } from '@/types/trading';
 import { getLocalStorage, setLocalStorage } from '@/lib/utils';
+import { validateTransition } from '@/utils/orderStateMachine';
 
 interface OrderState {
   orders: Order[];
   trades: Trade[];
   executionReports: ExecutionReport[];
+  auditLog: OrderAuditEntry[];
   
   // Order entry state
   pendingOrder: {
@@ -22,9 +24,8 @@ interface OrderState {
   // Actions
   createOrder: (orderData: Omit<Order, 'id' | 'timestamp' | 'status' | 'filledQuantity' | 'avgFillPrice' | 'remainingQuantity' | 'lastUpdateTime' | 'executionReports'>) => string;
   updateOrder: (orderId: string, updates: Partial<Order>) => void;
-  cancelOrder: (orderId: string) => void;
   addTrade: (trade: Trade) => void;
-  addExecutionReport: (report: ExecutionReport) => void;
+  addExecutionReport: (report: ExecutionReport) => boolean;
   setPendingOrder: (order: OrderState['pendingOrder']) => void;
   clearPendingOrder: () => void;
   getOrder: (orderId: string) => Order | undefined;
@@ -39,6 +40,7 @@ export const useOrderStore = create<OrderState>()(
     orders: [],
     trades: [],
     executionReports: [],
+    auditLog: [],
     pendingOrder: null,
     
     createOrder: (orderData) => {
@@ -49,7 +51,7 @@ export const useOrderStore = create<OrderState>()(
         ...orderData,
         id: orderId,
         timestamp: now,
-        status: 'NEW',
+        status: 'PENDING_NEW',
         filledQuantity: 0,
         avgFillPrice: 0,
         remainingQuantity: orderData.quantity,
@@ -76,10 +78,6 @@ export const useOrderStore = create<OrderState>()(
       get().saveToStorage();
     },
     
-    cancelOrder: (orderId) => {
-      get().updateOrder(orderId, { status: 'CANCELLED' });
-    },
-    
     addTrade: (trade) => {
       set(state => ({
         trades: [...state.trades, trade]
@@ -87,7 +85,27 @@ export const useOrderStore = create<OrderState>()(
       get().saveToStorage();
     },
     
+    // Status only ever changes through a report the state machine accepts; refused reports are audited, not applied
     addExecutionReport: (report) => {
+      const order = get().getOrder(report.orderId);
+      const rejectReason = order && validateTransition(order, report);
+      if (order && rejectReason) {
+        const entry: OrderAuditEntry = {
+          id: `AUD_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          orderId: order.id,
+          execId: report.execId,
+          execType: report.execType,
+          fromStatus: order.status,
+          toStatus: report.ordStatus,
+          reason: rejectReason,
+          timestamp: Date.now(),
+        };
+        
+        set(state => ({ auditLog: [...state.auditLog, entry] }));
+        get().saveToStorage();
+        return false;
+      }
+      
       set(state => ({
         executionReports: [...state.executionReports, report],
         orders: state.orders.map(order =>
@@ -105,6 +123,7 @@ export const useOrderStore = create<OrderState>()(
         )
       }));
       get().saveToStorage();
+      return true;
     },
     
     setPendingOrder: (order) => {
@@ -132,14 +151,16 @@ export const useOrderStore = create<OrderState>()(
       setLocalStorage('orders', state.orders);
       setLocalStorage('trades', state.trades);
       setLocalStorage('executionReports', state.executionReports);
+      setLocalStorage('orderAuditLog', state.auditLog);
     },
     
     loadFromStorage: () => {
       const orders = getLocalStorage('orders') || [];
       const trades = getLocalStorage('trades') || [];
       const executionReports = getLocalStorage('executionReports') || [];
+      const auditLog = getLocalStorage('orderAuditLog') || [];
       
-      set({ orders, trades, executionReports });
+      set({ orders, trades, executionReports, auditLog });
     },
   }))
 );
@@ -1,3 +1,7 @@
+export type MatchingAlgorithm = 'FIFO' | 'PRO_RATA' | 'FIFO_PRO_RATA';
+export type SessionPhase = 'PRE_OPEN' | 'OPENING_AUCTION' | 'CONTINUOUS' | 'CLOSING_AUCTION' | 'POST_CLOSE' | 'HALTED';
+export type HaltReason = 'LULD' | 'MWCB_LEVEL_1' | 'MWCB_LEVEL_2' | 'MWCB_LEVEL_3' | 'MARKET_EVENT';
+
 export interface Instrument {
   symbol: string;
   name: string;
@@ -14,6 +18,11 @@ export interface Instrument {
   strikePrice?: number;
   optionType?: 'CALL' | 'PUT';
   marginRequirement?: number;
+  matchingAlgorithm?: MatchingAlgorithm;
+  leadMarketMaker?: {
+    traderId: string;
+    allocationPercent: number;
+  };
   tradingHours: {
     open: string;
     close: string;
@@ -45,6 +54,7 @@ export interface Tick {
   size: number;
   timestamp: number;
   side?: 'BUY' | 'SELL';
+  darkPool?: boolean;
 }
 
 export interface OHLCV {
@@ -91,3 +101,42 @@ export interface OrderBook {
   asks: OrderBookLevel[];
   timestamp: number;
 }
+
+export interface TradingHalt {
+  symbol: string;
+  reason: HaltReason;
+  description: string;
+  haltedAt: number;
+  resumeAt: number;
+}
+
+// Fees are per share; a negative fee is a rebate
+export interface Venue {
+  id: string;
+  name: string;
+  makerFee: number;
+  takerFee: number;
+  latencyMs: number;
+  liquidityShare: number;
+  dark?: boolean; // non-displayed: orders never show in a book and trade at the lit midpoint
+}
+
+export interface VenueQuote {
+  venue: string;
+  bid: number;
+  bidSize: number;
+  ask: number;
+  askSize: number;
+}
+
+export interface NBBO {
+  symbol: string;
+  bid: number;
+  bidSize: number;
+  bidVenues: string[];
+  ask: number;
+  askSize: number;
+  askVenues: string[];
+  quotes: VenueQuote[];
+  timestamp: number;
+}
@@ -1,18 +1,63 @@
-export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'ICEBERG' | 'TWAP' | 'VWAP' | 'BRACKET' | 'OCO' | 'MULTI_LEG';
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP' | 'ICEBERG' | 'PEGGED' | 'TWAP' | 'VWAP' | 'POV' | 'IMPLEMENTATION_SHORTFALL' | 'BRACKET' | 'OCO' | 'MULTI_LEG';
 export type OrderSide = 'BUY' | 'SELL';
-export type OrderStatus = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED' | 'EXPIRED' | 'PENDING_NEW' | 'REPLACED' | 'SUSPENDED';
+export type OrderStatus = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED' | 'EXPIRED' | 'PENDING_NEW' | 'PENDING_CANCEL' | 'PENDING_REPLACE' | 'REPLACED' | 'SUSPENDED';
+// FIX ExecType (150): what happened to the order; TRADE_CORRECT and TRADE_CANCEL amend an earlier fill.
+// REPLACE_REJECTED stands in for the OrderCancelReject (35=9) answering a refused replace; the order carries on as it was
+export type ExecType = 'NEW' | 'PENDING_NEW' | 'FILL' | 'PARTIAL_FILL' | 'CANCELLED' | 'PENDING_CANCEL' | 'REJECTED' | 'RESTATED' | 'REPLACED' | 'PENDING_REPLACE' | 'EXPIRED' | 'TRIGGERED' | 'TRADE_CORRECT' | 'TRADE_CANCEL' | 'REPLACE_REJECTED';
+// FIX OrdRejReason (103) codes carried on rejects and refused replaces beside the free text
+export type OrdRejReason = 'UNKNOWN_SYMBOL' | 'EXCHANGE_CLOSED' | 'TOO_LATE_TO_ENTER' | 'UNKNOWN_ORDER' | 'UNSUPPORTED_ORDER_CHARACTERISTIC' | 'INCORRECT_QUANTITY' | 'PRICE_EXCEEDS_CURRENT_PRICE_BAND' | 'INVALID_PRICE_INCREMENT' | 'OTHER';
 export type TimeInForce = 'DAY' | 'GTC' | 'IOC' | 'FOK' | 'GTD' | 'ATC' | 'ATO' | 'GFS' | 'GTT';
+export type PegType = 'PRIMARY' | 'MARKET' | 'MIDPOINT';
+export type StopTriggerType = 'LAST' | 'BID' | 'ASK';
+// How far a trailing stop follows the market: a fixed price distance, a percentage of the watermark, or a multiple of ATR
+export type TrailType = 'ABSOLUTE' | 'PERCENTAGE' | 'ATR';
+// Whether a fill added liquidity to the book or took it
+export type LiquidityIndicator = 'MAKER' | 'TAKER';
 export type AssetClass = 'EQUITY' | 'FUTURES' | 'OPTIONS' | 'FOREX' | 'INDEX';
+// How an execution algorithm prices the child orders it sends
+export type AlgoChildOrderType = 'LIMIT' | 'MARKET';
+export type AlgoBenchmark = 'TWAP' | 'VWAP' | 'ARRIVAL';
+export type AlgoUrgency = 'LOW' | 'MEDIUM' | 'HIGH';
+// Option combinations traded as one order at a net price
+export type SpreadStrategy = 'CALL_VERTICAL' | 'PUT_VERTICAL' | 'STRADDLE' | 'IRON_CONDOR';
+
+export interface AlgoParams {
+  startTime: number;
+  endTime: number;
+  sliceCount?: number; // scheduled algos only; POV trades as the tape prints
+  childOrderType: AlgoChildOrderType;
+  maxParticipationRate?: number; // largest share of market volume the algo may trade, 0-1
+  targetParticipationRate?: number; // POV: share of market volume to track, 0-1
+  urgency?: AlgoUrgency; // POV: how readily children cross the spread to keep up
+  riskAversion?: number; // Implementation shortfall: 0 trades evenly, 1 front-loads hardest
+}
+
+// Progress of an algo against its benchmark, final once completedAt is set; positive slippage is worse than the benchmark
+export interface AlgoReport {
+  benchmark: AlgoBenchmark;
+  benchmarkPrice: number;
+  achievedPrice: number;
+  slippageBps: number;
+  filledQuantity: number;
+  marketVolume: number; // market volume traded since the algo started
+  arrivalPrice: number; // mid when the algo started
+  completedAt?: number;
+}
 
 export interface Order {
   id: string;
   clientOrderId: string;
+  origClientOrderId?: string;
   symbol: string;
   side: OrderSide;
   orderType: OrderType;
   quantity: number;
   price?: number;
   stopPrice?: number;
+  triggerType?: StopTriggerType;
+  trailType?: TrailType;
+  trailAmount?: number; // price distance, percent, or ATR multiple depending on trailType
+  trailWatermark?: number; // best trigger price since the trailing stop went live
   timeInForce: TimeInForce;
   status: OrderStatus;
   filledQuantity: number;
@@ -21,27 +66,54 @@ export interface Order {
   timestamp: number;
   lastUpdateTime: number;
   gatewayType: 'FIX' | 'OUCH';
+  venue?: string;
+  traderId?: string;
   executionReports: ExecutionReport[];
   expireDate?: number;
   displayQuantity?: number;
+  visibleQuantity?: number;
   minQuantity?: number;
+  pegType?: PegType;
   pegOffset?: number;
   parentOrderId?: string;
   childOrderIds?: string[];
   contingentOrders?: ContingentOrder[];
-  legs?: OrderLeg[];
+  bracketEntryId?: string; // exit legs: the bracket entry whose filled quantity they close out
+  ocoGroupId?: string; // a fill on one order in the group reduces the others by the same amount
+  legs?: OrderLeg[]; // spread orders: one unit of the spread, each leg traded in its ratio
+  spreadOrderId?: string; // leg executions: the spread order they were traded for
+  algoParams?: AlgoParams;
+  algoReport?: AlgoReport;
 }
 
 export interface ExecutionReport {
   id: string;
   orderId: string;
-  execType: 'NEW' | 'FILL' | 'PARTIAL_FILL' | 'CANCELLED' | 'REJECTED';
+  execType: ExecType;
   execId: string;
+  execRefId?: string; // trade corrections and cancels: the execId of the fill they amend
+  clientOrderId?: string;
+  origClientOrderId?: string;
   lastQty: number;
   lastPx: number;
   cumQty: number;
   avgPx: number;
   ordStatus: OrderStatus;
+  lastMkt?: string;
+  text?: string;
+  ordRejReason?: OrdRejReason;
+  timestamp: number;
+}
+
+// A report the order state machine refused to apply, kept so the break can be traced
+export interface OrderAuditEntry {
+  id: string;
+  orderId: string;
+  execId: string;
+  execType: ExecType;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  reason: string;
   timestamp: number;
 }
 
@@ -55,6 +127,10 @@ export interface Trade {
   timestamp: number;
   tradeId: string;
   counterparty?: string;
+  venue?: string;
+  liquidity?: LiquidityIndicator;
+  fee?: number;
+  darkPool?: boolean;
 }
 
 export interface Position {
@@ -81,6 +157,79 @@ export interface OrderBook {
   timestamp: number;
 }
 
+// An outright price a resting spread order makes available in one of its legs, given the other legs' books
+export interface ImpliedQuote {
+  symbol: string;
+  side: OrderSide;
+  price: number;
+  quantity: number;
+}
+
+// A spread's own book of net-priced orders, beside the net prices its legs' outright books imply
+export interface SpreadBook {
+  symbol: string;
+  legs: OrderLeg[];
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  impliedBid?: number;
+  impliedBidSize: number;
+  impliedAsk?: number;
+  impliedAskSize: number;
+  impliedIn: ImpliedQuote[];
+  timestamp: number;
+}
+
+export type BookEventType = 'ADD' | 'MODIFY' | 'DELETE' | 'EXECUTE';
+
+// One order-level change to a venue's book, as carried on a market-by-order (L3) feed.
+// A lost queue position is sent as a DELETE followed by an ADD at the back of the level.
+export interface BookEvent {
+  sequence: number;
+  type: BookEventType;
+  venue?: string;
+  symbol: string;
+  orderId: string;
+  side: OrderSide;
+  price: number;
+  quantity: number; // displayed size after the event; for EXECUTE, the size traded
+  timestamp: number;
+}
+
+export interface MarketByOrderEntry {
+  orderId: string;
+  quantity: number; // displayed size only; iceberg reserve stays hidden
+  timestamp: number;
+  queuePosition: number; // 1 is the front of the level
+  quantityAhead: number;
+}
+
+export interface MarketByOrderLevel {
+  price: number;
+  orders: MarketByOrderEntry[];
+}
+
+export interface MarketByOrder {
+  symbol: string;
+  venue?: string;
+  bids: MarketByOrderLevel[];
+  asks: MarketByOrderLevel[];
+  sequence: number; // last event reflected in this snapshot
+  timestamp: number;
+}
+
+export type AuctionType = 'OPENING' | 'CLOSING' | 'REOPENING';
+
+export interface AuctionState {
+  symbol: string;
+  auctionType: AuctionType;
+  indicativePrice?: number;
+  indicativeVolume: number;
+  imbalanceQuantity: number;
+  imbalanceSide?: OrderSide;
+  referencePrice?: number;
+  startTime: number;
+}
+
 export interface FIXMessage {
   msgType: string;
   fields: Record<string, string>;
@@ -95,6 +244,8 @@ export interface ContingentOrder {
   quantity: number;
   price?: number;
   offsetPercent?: number;
+  trailType?: TrailType;
+  trailAmount?: number;
 }
 
 export interface OrderLeg {
@@ -119,6 +270,38 @@ export interface OCOOrder {
   secondaryOrder: Partial<Order>;
 }
 
+export type ConditionType = 'PRICE' | 'PERCENT_CHANGE' | 'INDICATOR' | 'TIME';
+
+export type ConditionIndicator = 'RSI' | 'MACD' | 'SMA' | 'EMA';
+
+export type ConditionalOrderStatus = 'ARMED' | 'DISARMED' | 'TRIGGERED' | 'CANCELLED';
+
+export interface OrderCondition {
+  id: string;
+  type: ConditionType;
+  symbol?: string; // the instrument watched; time conditions watch the clock
+  comparator: 'ABOVE' | 'BELOW'; // percent changes compare the signed move, so a 1% drop is BELOW -1
+  value: number; // price, percent, or indicator level
+  indicator?: ConditionIndicator; // MACD is measured by its histogram
+  indicatorPeriod?: number;
+  time?: string; // HH:MM local time, met at or after
+  referencePrice?: number; // percent changes: the price when the condition was armed
+  met: boolean;
+  metAt?: number;
+}
+
+export interface ConditionalOrder {
+  id: string;
+  conditions: OrderCondition[];
+  logic: 'AND' | 'OR';
+  order: Pick<Order, 'symbol' | 'side' | 'orderType' | 'quantity' | 'price' | 'stopPrice' | 'timeInForce'>;
+  status: ConditionalOrderStatus;
+  createdAt: number;
+  armedAt?: number;
+  triggeredAt?: number;
+  orderId?: string; // the order submitted when the conditions were met
+}
+
 export interface ProtocolGateway {
   type: 'FIX' | 'OUCH' | 'ITCH';
   status: 'CONNECTED' | 'DISCONNECTED' | 'CONNECTING';
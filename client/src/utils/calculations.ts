@@ -126,6 +126,27 @@ export const calculateMaxDrawdown = (prices: number[]): number => {
   return maxDrawdown;
 };
 
+// Average true range over the most recent bars; each bar's range stretches to cover a gap from the prior close
+export const calculateATR = (
+  bars: Array<{ high: number; low: number; close: number }>,
+  periods: number = 14
+): number => {
+  if (bars.length < 2) return 0;
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const previousClose = bars[i - 1].close;
+    trueRanges.push(Math.max(
+      bars[i].high - bars[i].low,
+      Math.abs(bars[i].high - previousClose),
+      Math.abs(bars[i].low - previousClose)
+    ));
+  }
+
+  const recent = trueRanges.slice(-periods);
+  return recent.reduce((sum, range) => sum + range, 0) / recent.length;
+};
+
 // Options Greeks calculations (Black-Scholes approximations)
 export const calculateDelta = (
   spotPrice: number,
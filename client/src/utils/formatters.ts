@@ -95,9 +95,14 @@ export const formatOrderType = (type: string): string => {
     case 'LIMIT': return 'Limit';
     case 'STOP': return 'Stop';
     case 'STOP_LIMIT': return 'Stop Limit';
+    case 'TRAILING_STOP': return 'Trailing Stop';
     case 'ICEBERG': return 'Iceberg';
+    case 'PEGGED': return 'Pegged';
     case 'TWAP': return 'TWAP';
     case 'VWAP': return 'VWAP';
+    case 'POV': return 'POV';
+    case 'IMPLEMENTATION_SHORTFALL': return 'Impl. Shortfall';
+    case 'MULTI_LEG': return 'Spread';
     default: return type;
   }
 };
@@ -120,10 +125,67 @@ export const formatExecutionType = (execType: string): string => {
     case 'PARTIAL_FILL': return 'Partial Fill';
     case 'CANCELLED': return 'Cancelled';
     case 'REJECTED': return 'Rejected';
+    case 'PENDING_NEW': return 'Pending New';
+    case 'PENDING_CANCEL': return 'Pending Cancel';
+    case 'PENDING_REPLACE': return 'Pending Replace';
+    case 'RESTATED': return 'Restated';
+    case 'REPLACED': return 'Replaced';
+    case 'EXPIRED': return 'Expired';
+    case 'TRIGGERED': return 'Triggered';
+    case 'TRADE_CORRECT': return 'Trade Correct';
+    case 'TRADE_CANCEL': return 'Trade Cancel';
+    case 'REPLACE_REJECTED': return 'Replace Rejected';
     default: return execType;
   }
 };
 
+export const formatSessionPhase = (phase: string): string => {
+  switch (phase) {
+    case 'PRE_OPEN': return 'Pre-Open';
+    case 'OPENING_AUCTION': return 'Opening Auction';
+    case 'CONTINUOUS': return 'Continuous';
+    case 'CLOSING_AUCTION': return 'Closing Auction';
+    case 'POST_CLOSE': return 'Post-Close';
+    case 'HALTED': return 'Halted';
+    default: return phase;
+  }
+};
+
+export const formatAuctionType = (auctionType: string): string => {
+  switch (auctionType) {
+    case 'OPENING': return 'Opening';
+    case 'CLOSING': return 'Closing';
+    case 'REOPENING': return 'Reopening';
+    default: return auctionType;
+  }
+};
+
+export const formatHaltReason = (reason: string): string => {
+  switch (reason) {
+    case 'LULD': return 'Limit Up-Limit Down';
+    case 'MWCB_LEVEL_1': return 'Market-Wide Level 1';
+    case 'MWCB_LEVEL_2': return 'Market-Wide Level 2';
+    case 'MWCB_LEVEL_3': return 'Market-Wide Level 3';
+    case 'MARKET_EVENT': return 'Market Event';
+    default: return reason;
+  }
+};
+
+export const formatCountdown = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+// Exchange fees are fractions of a cent per share, so they need more than two decimals
+export const formatFee = (fee: number): string => {
+  const sign = fee < 0 ? '-' : '';
+  return `${sign}$${Math.abs(fee).toFixed(4)}`;
+};
+
 export const formatPositionSide = (side: string): string => {
   switch (side) {
     case 'LONG': return 'Long';
@@ -0,0 +1,117 @@
+import { ExecType, ExecutionReport, Order, OrderStatus } from '@/types/trading';
+
+// OrdStatus changes allowed by the FIX order state change matrices; terminal statuses go nowhere
+const ORD_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING_NEW: ['NEW', 'REJECTED'],
+  NEW: ['PARTIALLY_FILLED', 'FILLED', 'PENDING_CANCEL', 'PENDING_REPLACE', 'CANCELLED', 'EXPIRED', 'SUSPENDED', 'REJECTED'],
+  PARTIALLY_FILLED: ['FILLED', 'PENDING_CANCEL', 'PENDING_REPLACE', 'CANCELLED', 'EXPIRED', 'SUSPENDED'],
+  PENDING_CANCEL: ['NEW', 'PARTIALLY_FILLED', 'FILLED', 'CANCELLED'],
+  PENDING_REPLACE: ['NEW', 'PARTIALLY_FILLED', 'FILLED', 'PENDING_CANCEL', 'CANCELLED', 'EXPIRED'],
+  SUSPENDED: ['NEW', 'PARTIALLY_FILLED', 'PENDING_CANCEL', 'CANCELLED', 'EXPIRED'],
+  FILLED: [],
+  CANCELLED: [],
+  REJECTED: [],
+  EXPIRED: [],
+  REPLACED: [],
+};
+
+// The OrdStatus each execution type must carry; the rest report the order's status as it stands
+const EXEC_TYPE_STATUSES: Partial<Record<ExecType, OrderStatus>> = {
+  PENDING_NEW: 'PENDING_NEW',
+  NEW: 'NEW',
+  PARTIAL_FILL: 'PARTIALLY_FILLED',
+  FILL: 'FILLED',
+  PENDING_CANCEL: 'PENDING_CANCEL',
+  CANCELLED: 'CANCELLED',
+  PENDING_REPLACE: 'PENDING_REPLACE',
+  REJECTED: 'REJECTED',
+  EXPIRED: 'EXPIRED',
+};
+
+// A restatement, replacement or trigger may settle a pending order back into one of these
+const LIVE_STATUSES: OrderStatus[] = ['NEW', 'PARTIALLY_FILLED', 'SUSPENDED'];
+
+// Done orders a corrected fill leaves where they are; only FILLED reopens, and only when a fill is busted
+const CLOSED_STATUSES: OrderStatus[] = ['CANCELLED', 'REJECTED', 'EXPIRED', 'REPLACED'];
+
+const isTradeAmendment = (execType: ExecType): boolean => execType === 'TRADE_CORRECT' || execType === 'TRADE_CANCEL';
+
+// The status the corrected fill total puts the order in; pending and suspended orders keep theirs until fully filled
+const getAmendedStatus = (order: Order, cumQty: number): OrderStatus => {
+  if (CLOSED_STATUSES.includes(order.status)) return order.status;
+  if (cumQty === order.quantity) return 'FILLED';
+  if (order.status === 'FILLED' || order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') {
+    return cumQty > 0 ? 'PARTIALLY_FILLED' : 'NEW';
+  }
+  return order.status;
+};
+
+// Corrections and busts may arrive after the order is done, but only against a fill it actually received
+const validateTradeAmendment = (order: Order, report: ExecutionReport): string | undefined => {
+  const amended = order.executionReports.find(previous => previous.execId === report.execRefId);
+  if (!amended || (amended.execType !== 'FILL' && amended.execType !== 'PARTIAL_FILL')) {
+    return `${report.execType} must reference a fill on the order`;
+  }
+  if (report.cumQty < 0 || report.cumQty > order.quantity) {
+    return `Corrected quantity ${report.cumQty} is outside 0-${order.quantity}`;
+  }
+  const amendedStatus = getAmendedStatus(order, report.cumQty);
+  if (report.ordStatus !== amendedStatus) {
+    return `${report.execType} leaves ${report.cumQty} of ${order.quantity} filled on a ${order.status} order, so must report ${amendedStatus}, not ${report.ordStatus}`;
+  }
+  return undefined;
+};
+
+// Returns why the report can't be applied to the order as it stands, or undefined when the transition is legal
+export const validateTransition = (order: Order, report: ExecutionReport): string | undefined => {
+  if (isTradeAmendment(report.execType)) return validateTradeAmendment(order, report);
+
+  const { status } = order;
+  const { execType, ordStatus } = report;
+
+  // A refused replace may answer a request on a done order, but leaves the order exactly as it was
+  if (execType === 'REPLACE_REJECTED') {
+    if (ordStatus !== status) return `${execType} must report the order's ${status}, not ${ordStatus}`;
+    if (report.lastQty !== 0 || report.cumQty !== order.filledQuantity) return `${execType} cannot change the filled quantity`;
+    return undefined;
+  }
+
+  if (ORD_STATUS_TRANSITIONS[status].length === 0) {
+    return `${execType} received after the order was ${status}`;
+  }
+
+  const expectedStatus = EXEC_TYPE_STATUSES[execType];
+  if (expectedStatus !== undefined && ordStatus !== expectedStatus) {
+    return `${execType} must report ${expectedStatus}, not ${ordStatus}`;
+  }
+  if (expectedStatus === undefined && ordStatus !== status && !LIVE_STATUSES.includes(ordStatus)) {
+    return `${execType} cannot move the order to ${ordStatus}`;
+  }
+
+  // Only partial fills and reports that change nothing about the order's state may repeat its status
+  if (ordStatus === status) {
+    if (expectedStatus !== undefined && execType !== 'PARTIAL_FILL') {
+      return `${execType} received while the order is already ${status}`;
+    }
+  } else if (!ORD_STATUS_TRANSITIONS[status].includes(ordStatus)) {
+    return `${status} cannot move to ${ordStatus}`;
+  }
+
+  if (execType === 'FILL' || execType === 'PARTIAL_FILL') {
+    if (report.lastQty <= 0) return `${execType} must trade a positive quantity`;
+    if (report.cumQty !== order.filledQuantity + report.lastQty) {
+      return `Cumulative quantity ${report.cumQty} does not follow ${order.filledQuantity} filled plus ${report.lastQty}`;
+    }
+    if (report.cumQty > order.quantity) return `Fill takes the order to ${report.cumQty}, over its ${order.quantity}`;
+    if ((execType === 'FILL') !== (report.cumQty === order.quantity)) {
+      return `${execType} does not match ${report.cumQty} filled of ${order.quantity}`;
+    }
+    return undefined;
+  }
+
+  if (report.lastQty !== 0 || report.cumQty !== order.filledQuantity) {
+    return `${execType} cannot change the filled quantity`;
+  }
+
+  return undefined;
+};
@@ -0,0 +1,98 @@
+import { Instrument, SessionPhase } from '@/types/market';
+
+type TradingHours = Instrument['tradingHours'];
+
+const TIMEZONES: Record<string, string> = {
+  ET: 'America/New_York',
+  CT: 'America/Chicago',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+// Length of the call periods around the continuous session, in minutes
+const PRE_OPEN_MINUTES = 60;
+const OPENING_AUCTION_MINUTES = 5;
+const CLOSING_AUCTION_MINUTES = 5;
+
+export const parseSessionTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Difference between the exchange's wall clock and UTC at the given instant
+const getTimezoneOffset = (timestamp: number, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: TIMEZONES[timezone] || 'UTC',
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(timestamp);
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+};
+
+// First session close strictly after the given instant
+export const getNextSessionClose = (tradingHours: TradingHours, timestamp: number): number => {
+  const offset = getTimezoneOffset(timestamp, tradingHours.timezone);
+  const wallClock = timestamp + offset;
+  const midnight = wallClock - (wallClock % DAY_MS);
+
+  let close = midnight + parseSessionTime(tradingHours.close) * 60000 - offset;
+  if (close <= timestamp) {
+    close += DAY_MS;
+  }
+
+  return close;
+};
+
+// Minutes since midnight and day of week on the exchange's wall clock
+const getExchangeClock = (timestamp: number, timezone: string): { minutes: number; weekday: number } => {
+  const wallClock = timestamp + getTimezoneOffset(timestamp, timezone);
+  return {
+    minutes: Math.floor((wallClock % DAY_MS) / 60000),
+    weekday: new Date(wallClock).getUTCDay(),
+  };
+};
+
+// Sessions that open in the evening belong to the next day, so they start Sunday to Thursday
+const tradesOn = (tradingHours: TradingHours, startWeekday: number): boolean => {
+  const overnight = parseSessionTime(tradingHours.open) >= parseSessionTime(tradingHours.close);
+  return overnight ? startWeekday <= 4 : startWeekday >= 1 && startWeekday <= 5;
+};
+
+// Scheduled phase at the given instant; halts are layered on top by the session service
+export const getSessionPhase = (tradingHours: TradingHours, timestamp: number): SessionPhase => {
+  const open = parseSessionTime(tradingHours.open);
+  const close = parseSessionTime(tradingHours.close);
+  const sessionLength = (close - open + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+
+  const { minutes } = getExchangeClock(timestamp, tradingHours.timezone);
+  const sinceOpen = (minutes - open + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+  if (sinceOpen < sessionLength) {
+    const { weekday } = getExchangeClock(timestamp - sinceOpen * 60000, tradingHours.timezone);
+    if (!tradesOn(tradingHours, weekday)) return 'POST_CLOSE';
+
+    // Round-the-clock markets have no break to hold their auctions in
+    if (sessionLength < MINUTES_PER_DAY && sinceOpen >= sessionLength - CLOSING_AUCTION_MINUTES) {
+      return 'CLOSING_AUCTION';
+    }
+    return 'CONTINUOUS';
+  }
+
+  const untilOpen = MINUTES_PER_DAY - sinceOpen;
+  const { weekday } = getExchangeClock(timestamp + untilOpen * 60000, tradingHours.timezone);
+  if (!tradesOn(tradingHours, weekday)) return 'POST_CLOSE';
+
+  if (untilOpen <= OPENING_AUCTION_MINUTES) return 'OPENING_AUCTION';
+  if (untilOpen <= PRE_OPEN_MINUTES) return 'PRE_OPEN';
+  return 'POST_CLOSE';
+};
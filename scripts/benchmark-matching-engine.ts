@@ -0,0 +1,101 @@
+import { performance } from 'node:perf_hooks';
+import { MatchingEngine } from '../client/src/services/MatchingEngine';
+import type { Order, OrderSide } from '../client/src/types/trading';
+
+// Throughput of the matching engine under bot-style order flow.
+// Usage: npm run bench:matching [-- <orders>]
+
+const ORDER_COUNT = Number(process.argv[2]) || 50000;
+const SYMBOL = 'BENCH';
+const MID_PRICE = 100;
+const TICK = 0.01;
+// A dense book stacks orders on few prices; a wide one opens a level for nearly every order
+const BOOKS = [
+  { name: 'dense', levels: 500 },
+  { name: 'wide', levels: ORDER_COUNT },
+];
+
+let sequence = 0;
+
+const createOrder = (side: OrderSide, price: number, quantity: number): Order => ({
+  id: `B_${sequence++}`,
+  clientOrderId: `B_${sequence}`,
+  symbol: SYMBOL,
+  side,
+  orderType: 'LIMIT',
+  quantity,
+  price,
+  timeInForce: 'GTC',
+  status: 'NEW',
+  filledQuantity: 0,
+  avgFillPrice: 0,
+  remainingQuantity: quantity,
+  timestamp: sequence,
+  lastUpdateTime: sequence,
+  gatewayType: 'FIX',
+  executionReports: [],
+});
+
+// Passive orders spread over the levels on each side of the mid, never crossing
+const createRestingOrder = (levels: number): Order => {
+  const side: OrderSide = Math.random() < 0.5 ? 'BUY' : 'SELL';
+  const ticksAway = 1 + Math.floor(Math.random() * levels);
+  const price = side === 'BUY' ? MID_PRICE - ticksAway * TICK : MID_PRICE + ticksAway * TICK;
+  return createOrder(side, Math.round(price * 100) / 100, 1 + Math.floor(Math.random() * 100));
+};
+
+const report = (workload: string, count: number, elapsed: number) => {
+  const perSecond = Math.round(count / (elapsed / 1000));
+  console.log(`${workload.padEnd(8)} ${count.toString().padStart(8)} orders  ${elapsed.toFixed(1).padStart(9)} ms  ${perSecond.toLocaleString().padStart(12)} orders/s`);
+};
+
+const seedBook = (engine: MatchingEngine, levels: number): Order[] => {
+  const orders = Array.from({ length: ORDER_COUNT }, () => createRestingOrder(levels));
+  orders.forEach(order => engine.addOrder(order));
+  return orders;
+};
+
+const benchmarkAdd = (levels: number) => {
+  const engine = new MatchingEngine();
+  const orders = Array.from({ length: ORDER_COUNT }, () => createRestingOrder(levels));
+
+  const start = performance.now();
+  orders.forEach(order => engine.addOrder(order));
+  report('add', orders.length, performance.now() - start);
+};
+
+const benchmarkCancel = (levels: number) => {
+  const engine = new MatchingEngine();
+  const orders = seedBook(engine, levels).sort(() => Math.random() - 0.5);
+
+  const start = performance.now();
+  orders.forEach(order => engine.cancelOrder(order.id, SYMBOL));
+  report('cancel', orders.length, performance.now() - start);
+};
+
+const benchmarkMatch = (levels: number) => {
+  const engine = new MatchingEngine();
+  seedBook(engine, levels);
+
+  // Marketable orders that each take out the top of the opposite side
+  const aggressors = Array.from({ length: ORDER_COUNT }, () => {
+    const side: OrderSide = Math.random() < 0.5 ? 'BUY' : 'SELL';
+    const price = side === 'BUY' ? MID_PRICE + levels * TICK : MID_PRICE - levels * TICK;
+    return createOrder(side, Math.round(price * 100) / 100, 1 + Math.floor(Math.random() * 20));
+  });
+
+  let trades = 0;
+  const start = performance.now();
+  aggressors.forEach(order => {
+    trades += engine.addOrder(order).trades.length;
+  });
+  report('match', aggressors.length, performance.now() - start);
+  console.log(`         ${trades} trades`);
+};
+
+BOOKS.forEach(({ name, levels }) => {
+  console.log(`Matching engine benchmark, ${name} book: ${ORDER_COUNT} orders, ${levels} levels per side`);
+  benchmarkAdd(levels);
+  benchmarkCancel(levels);
+  benchmarkMatch(levels);
+});